@@ -0,0 +1,12 @@
+import os from "os";
+import path from "path";
+import fs from "fs";
+
+// Each test file gets its own OUTPUT_DIR, so artifacts, cache entries, usage
+// and project manifests never land in the real outputs/ tree
+const outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "reel-test-"));
+process.env.OUTPUT_DIR = outputDir;
+
+afterAll(() => {
+	fs.rmSync(outputDir, { recursive: true, force: true });
+});
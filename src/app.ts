@@ -1,5 +1,6 @@
-import express, { Express, Request, Response, NextFunction } from "express";
+import express, { Express } from "express";
 import imageRoutes from "./routes/imageRoutes"; // Use import syntax
+import { errorHandler, notFoundHandler } from "./middlewares/errorMiddleware";
 
 const app: Express = express();
 
@@ -16,16 +17,8 @@ app.get("/", (req, res) => {
 });
 */
 
-// Error Handling Middleware (example)
-// Add types for err, req, res, next
-app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-	console.error("Error Handler:", err.message); // Log just the message or the full stack
-	console.error(err.stack);
-	// Avoid sending stack trace in production
-	res.status(500).json({
-		message: "Something broke!",
-		error: process.env.NODE_ENV === "development" ? err.message : undefined,
-	});
-});
+// Unknown routes, then JSON errors with stable codes (see errors/appErrors.ts)
+app.use(notFoundHandler);
+app.use(errorHandler);
 
 export default app; // Use export default syntax
@@ -0,0 +1,20 @@
+// Ken Burns motion applied to scene images, shared by the request schemas
+// and the video pipeline
+
+export type MotionPreset =
+	| "none"
+	| "zoom_in"
+	| "zoom_out"
+	| "pan_left"
+	| "pan_right";
+// "auto" picks a different preset for each scene
+export type MotionOption = MotionPreset | "auto";
+
+export const MOTION_OPTIONS: MotionOption[] = [
+	"auto",
+	"none",
+	"zoom_in",
+	"zoom_out",
+	"pan_left",
+	"pan_right",
+];
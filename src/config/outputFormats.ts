@@ -0,0 +1,99 @@
+// Output format presets and render settings for the final video
+
+export type AspectPreset = "9:16" | "1:1" | "16:9" | "4:5";
+export type VideoCodec = "h264" | "hevc";
+// How images that don't match the frame are filled: black bars or a
+// blurred, enlarged copy of the image behind it
+export type BackgroundFill = "black" | "blur";
+
+export interface RenderSettings {
+	width: number;
+	height: number;
+	fps: number;
+	videoCodec: VideoCodec;
+	crf?: number; // Constant quality; ignored when videoBitrate is set
+	videoBitrate?: string; // e.g. "4M"
+	audioBitrate: string; // e.g. "192k"
+	background: BackgroundFill;
+}
+
+// Shorts/Reels, Instagram square and portrait posts, landscape YouTube
+export const ASPECT_PRESETS: Record<
+	AspectPreset,
+	{ width: number; height: number }
+> = {
+	"9:16": { width: 1080, height: 1920 },
+	"1:1": { width: 1080, height: 1080 },
+	"16:9": { width: 1920, height: 1080 },
+	"4:5": { width: 1080, height: 1350 },
+};
+
+export const DEFAULT_RENDER_SETTINGS: RenderSettings = {
+	...ASPECT_PRESETS["9:16"],
+	fps: 30,
+	videoCodec: "h264",
+	crf: 23,
+	audioBitrate: "192k",
+	background: "black",
+};
+
+export const VIDEO_CODECS: VideoCodec[] = ["h264", "hevc"];
+export const BACKGROUND_FILLS: BackgroundFill[] = ["black", "blur"];
+
+// ffmpeg encoder for each codec
+export const VIDEO_ENCODERS: Record<VideoCodec, string> = {
+	h264: "libx264",
+	hevc: "libx265",
+};
+
+// Output options accepted in request bodies
+export interface OutputFormatRequestOptions {
+	format?: AspectPreset;
+	width?: number;
+	height?: number;
+	fps?: number;
+	codec?: VideoCodec;
+	crf?: number;
+	videoBitrate?: string;
+	audioBitrate?: string;
+	background?: BackgroundFill;
+}
+
+// Resolve request options against the preset and defaults. Explicit width
+// and height override the preset. The values are checked by the request
+// schemas before they get here.
+export const resolveRenderSettings = (
+	options: OutputFormatRequestOptions | undefined
+): RenderSettings => {
+	if (!options) return { ...DEFAULT_RENDER_SETTINGS };
+
+	const settings: RenderSettings = { ...DEFAULT_RENDER_SETTINGS };
+
+	if (options.format !== undefined) {
+		Object.assign(settings, ASPECT_PRESETS[options.format]);
+	}
+	if (options.width !== undefined && options.height !== undefined) {
+		settings.width = options.width;
+		settings.height = options.height;
+	}
+	if (options.fps !== undefined) {
+		settings.fps = options.fps;
+	}
+	if (options.codec !== undefined) {
+		settings.videoCodec = options.codec;
+	}
+	if (options.crf !== undefined) {
+		settings.crf = options.crf;
+	}
+	if (options.videoBitrate !== undefined) {
+		settings.videoBitrate = options.videoBitrate;
+		settings.crf = undefined;
+	}
+	if (options.audioBitrate !== undefined) {
+		settings.audioBitrate = options.audioBitrate;
+	}
+	if (options.background !== undefined) {
+		settings.background = options.background;
+	}
+	return settings;
+};
@@ -0,0 +1,131 @@
+import path from "path";
+import { pipeline } from "stream";
+import { Request, Response, NextFunction } from "express";
+import * as artifactService from "../services/artifactService";
+import { getStorageBackend, getStorageKey } from "../services/storage";
+import { hasMultipleTenants } from "../services/tenantService";
+import {
+	getRequestApiKey,
+	isValidApiKey,
+} from "../middlewares/authMiddleware";
+import {
+	NotFoundError,
+	UnauthorizedError,
+	ValidationError,
+} from "../errors/appErrors";
+
+// How long the backend URLs handed out by STORAGE_REDIRECT_DOWNLOADS last;
+// clients get a fresh one each time they follow an artifact URL
+const REDIRECT_URL_TTL_SECONDS = 5 * 60;
+
+// Streams a stored artifact. Local files go through res.sendFile, which
+// handles range requests, ETag/Last-Modified and conditional GETs, so
+// browsers can seek in MP4s. Other backends are streamed with the client's
+// Range header passed through, or, with STORAGE_REDIRECT_DOWNLOADS=true,
+// answered with a redirect to a short-lived backend URL.
+// Access needs a valid signed-URL signature. With a single tenant a valid
+// API key works too; with several, a key would unlock every tenant's files,
+// and only the job and project responses hand out signed URLs to the
+// tenant that owns them.
+export const downloadArtifact = async (
+	req: Request<{ type: string; filename: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { type, filename } = req.params;
+		if (!artifactService.isArtifactType(type)) {
+			return next(new NotFoundError("Unknown artifact type."));
+		}
+
+		const artifact = artifactService.resolveArtifact(type, filename);
+		if (!artifact) {
+			return next(
+				ValidationError.forField("filename", "Invalid artifact filename.")
+			);
+		}
+
+		const authorized =
+			artifactService.verifyArtifactSignature(
+				type,
+				filename,
+				req.query.expires,
+				req.query.signature
+			) ||
+			(!hasMultipleTenants() && isValidApiKey(getRequestApiKey(req)));
+		if (!authorized) {
+			return next(new UnauthorizedError());
+		}
+
+		const backend = getStorageBackend();
+		const key = getStorageKey(path.join(artifact.root, artifact.filename));
+		if (backend.getLocalPath) {
+			const localPath = backend.getLocalPath(key);
+			res.type(artifact.contentType);
+			res.sendFile(
+				path.basename(localPath),
+				{
+					root: path.dirname(localPath),
+					dotfiles: "deny",
+					acceptRanges: true,
+				},
+				(err?: Error & { status?: number; code?: string }) => {
+					if (!err) return;
+					if (res.headersSent) {
+						// Client aborted mid-stream; nothing more to send
+						return;
+					}
+					if (err.code === "ENOENT" || err.status === 404) {
+						return next(new NotFoundError("Artifact not found."));
+					}
+					next(err);
+				}
+			);
+			return;
+		}
+
+		if (process.env.STORAGE_REDIRECT_DOWNLOADS === "true") {
+			const signedUrl = await backend.getSignedUrl(
+				key,
+				REDIRECT_URL_TTL_SECONDS
+			);
+			if (signedUrl) {
+				return res.redirect(302, signedUrl);
+			}
+		}
+
+		const rangeHeader = req.headers.range;
+		let stored;
+		try {
+			stored = await backend.getStream(key, rangeHeader);
+		} catch (error) {
+			if (error instanceof NotFoundError) {
+				return next(new NotFoundError("Artifact not found."));
+			}
+			throw error;
+		}
+		res.status(stored.contentRange ? 206 : 200);
+		res.type(artifact.contentType);
+		res.setHeader("Accept-Ranges", "bytes");
+		if (stored.contentLength !== undefined) {
+			res.setHeader("Content-Length", stored.contentLength);
+		}
+		if (stored.contentRange) {
+			res.setHeader("Content-Range", stored.contentRange);
+		}
+		if (stored.etag) res.setHeader("ETag", stored.etag);
+		if (stored.lastModified) {
+			res.setHeader("Last-Modified", stored.lastModified.toUTCString());
+		}
+		// Ends the backend stream too if the client goes away
+		pipeline(stored.body, res, (err) => {
+			if (err) console.warn(`Streaming ${key} stopped: ${err.message}`);
+		});
+	} catch (error) {
+		console.error(
+			"Artifact Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
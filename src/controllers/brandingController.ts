@@ -0,0 +1,42 @@
+import { Request, Response, NextFunction } from "express";
+import * as brandingService from "../services/brandingService";
+import { BYTES_PER_MEGABYTE, recordUsage } from "../services/usageService";
+import { getRequestTenant } from "../middlewares/authMiddleware";
+import { ValidationError } from "../errors/appErrors";
+
+// Accepts a raw logo image upload (Content-Type: image/*) for title/end
+// cards and the watermark. The returned uploadId goes in the render options.
+export const uploadLogo = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		if (!Buffer.isBuffer(req.body)) {
+			return next(
+				new ValidationError(
+					"Logo upload must be sent as a raw image/* request body."
+				)
+			);
+		}
+		const tenantId = getRequestTenant(req).id;
+		const uploadId = await brandingService.saveUploadedLogo(
+			tenantId,
+			req.body,
+			req.headers["content-type"]
+		);
+		await recordUsage(tenantId, {
+			uploadMegabytes: req.body.length / BYTES_PER_MEGABYTE,
+		});
+		res.status(201).json({
+			message: "Logo uploaded successfully.",
+			uploadId,
+		});
+	} catch (error) {
+		console.error(
+			"Branding Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
@@ -2,6 +2,10 @@
 import { Response, NextFunction } from "express";
 import * as imageService from "../services/imageService";
 import { RequestWithImageData } from "../types/express.d";
+import {
+	buildArtifactUrl,
+	getApiBaseUrl,
+} from "../services/artifactService";
 
 export const generateImage = async (
 	req: RequestWithImageData,
@@ -10,7 +14,6 @@ export const generateImage = async (
 ) => {
 	try {
 		const imageBase64Data = req.generatedImageBase64;
-		const { prompt } = req.body;
 
 		if (!imageBase64Data) {
 			console.error("Controller: Image data not found on request object.");
@@ -25,7 +28,8 @@ export const generateImage = async (
 
 		res.status(200).json({
 			message: "Image generated and saved successfully.",
-			filename: filename,
+			imageUrl: buildArtifactUrl(getApiBaseUrl(req), "images", filename),
+			cacheStats: req.cacheScope?.stats ?? null,
 		});
 	} catch (error) {
 		console.error(
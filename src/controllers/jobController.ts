@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from "express";
+import * as jobService from "../services/jobService";
+import { getApiBaseUrl } from "../services/artifactService";
+import { presentJobEvent, presentJobResult } from "../presenters/jobPresenter";
+import { getRequestTenant } from "../middlewares/authMiddleware";
+import { NotFoundError } from "../errors/appErrors";
+
+// Reports the current stage and partial results of a story job
+export const getJobStatus = async (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const job = jobService.getJob(req.params.id);
+		// Another tenant's job is reported as missing
+		if (!job || job.tenantId !== getRequestTenant(req).id) {
+			return next(new NotFoundError("Job not found."));
+		}
+
+		res.status(200).json({
+			jobId: job.id,
+			status: job.status,
+			stage: job.stage,
+			stageDetail: job.stageDetail,
+			scenesDone: job.scenesDone,
+			totalScenes: job.totalScenes,
+			...presentJobResult(job.result, getApiBaseUrl(req)),
+			error: job.error,
+			errorCode: job.errorCode,
+			createdAt: job.createdAt,
+			updatedAt: job.updatedAt,
+		});
+	} catch (error) {
+		console.error(
+			"Job Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Streams typed job events over Server-Sent Events. Past events are replayed
+// first so clients that connect late still see every milestone.
+export const streamJobEvents = async (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const job = jobService.getJob(req.params.id);
+		// Another tenant's job is reported as missing
+		if (!job || job.tenantId !== getRequestTenant(req).id) {
+			return next(new NotFoundError("Job not found."));
+		}
+
+		res.status(200).set({
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			Connection: "keep-alive",
+		});
+		res.flushHeaders();
+
+		let unsubscribe: (() => void) | null = null;
+		const close = () => {
+			unsubscribe?.();
+			unsubscribe = null;
+			if (!res.writableEnded) res.end();
+		};
+
+		const baseUrl = getApiBaseUrl(req);
+		unsubscribe = jobService.subscribeToJob(job.id, (event) => {
+			const payload = presentJobEvent(event, baseUrl);
+			res.write(`event: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+			if (event.type === "job_completed" || event.type === "job_failed") {
+				// Defer so the subscription exists before we tear it down on replay
+				setImmediate(close);
+			}
+		});
+
+		// Client went away; the job itself keeps running
+		req.on("close", () => {
+			unsubscribe?.();
+			unsubscribe = null;
+		});
+	} catch (error) {
+		console.error(
+			"Job Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
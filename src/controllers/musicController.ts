@@ -0,0 +1,60 @@
+import { Request, Response, NextFunction } from "express";
+import * as musicService from "../services/musicService";
+import { BYTES_PER_MEGABYTE, recordUsage } from "../services/usageService";
+import { getRequestTenant } from "../middlewares/authMiddleware";
+import { ValidationError } from "../errors/appErrors";
+
+// Lists the tracks available in the local music library
+export const listTracks = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const tracks = await musicService.listLibraryTracks();
+		res.status(200).json({ libraryTracks: tracks });
+	} catch (error) {
+		console.error(
+			"Music Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Accepts a raw audio upload (Content-Type: audio/*) for use as background
+// music. The returned uploadId goes in the story request's music options.
+export const uploadTrack = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		if (!Buffer.isBuffer(req.body)) {
+			return next(
+				new ValidationError(
+					"Music upload must be sent as a raw audio/* request body."
+				)
+			);
+		}
+		const tenantId = getRequestTenant(req).id;
+		const uploadId = await musicService.saveUploadedTrack(
+			tenantId,
+			req.body,
+			req.headers["content-type"]
+		);
+		await recordUsage(tenantId, {
+			uploadMegabytes: req.body.length / BYTES_PER_MEGABYTE,
+		});
+		res.status(201).json({
+			message: "Music track uploaded successfully.",
+			uploadId,
+		});
+	} catch (error) {
+		console.error(
+			"Music Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
@@ -0,0 +1,107 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { v4 as uuidv4 } from "uuid";
+import app from "../app";
+import * as projectService from "../services/projectService";
+import * as storyPipelineService from "../services/storyPipelineService";
+import { DEFAULT_TENANT_ID } from "../services/tenantService";
+
+// Replacing a scene image through the API, then downloading it. Without
+// API_KEYS or TENANTS_FILE every request is the default tenant.
+
+// Enough of a JPEG for the upload's signature check
+const JPEG_IMAGE = Buffer.from(
+	"ffd8ffe000104a46494600010100000100010000ffd9",
+	"hex"
+);
+
+const createProject = async (): Promise<projectService.ProjectManifest> => {
+	const now = new Date().toISOString();
+	const manifest: projectService.ProjectManifest = {
+		projectId: uuidv4(),
+		tenantId: DEFAULT_TENANT_ID,
+		createdAt: now,
+		updatedAt: now,
+		story: "A fox woke early in its den.",
+		models: { provider: "fake" },
+		storyBible: null,
+		scenes: [
+			{
+				sceneIndex: 1,
+				sceneText: "A fox woke early in its den.",
+				refinedPrompt: "A scene showing: A fox woke early in its den.",
+				imageFilename: "scene_1_original.png",
+				audioFilename: "scene_1_original.wav",
+				audioDuration: 2,
+			},
+		],
+		storyboardVersion: 1,
+		storyboardHistory: [],
+		fullAudioFilename: "story_audio_original.wav",
+		subtitles: null,
+		renderRequest: {},
+		renders: [],
+	};
+	await projectService.saveProjectManifest(manifest);
+	return manifest;
+};
+
+describe("PUT /projects/:id/scenes/:index/image", () => {
+	let server: http.Server;
+	let baseUrl: string;
+
+	beforeAll(async () => {
+		// Only the stored image matters here, not the recompiled video
+		jest
+			.spyOn(storyPipelineService, "runProjectRender")
+			.mockResolvedValue(undefined);
+		server = http.createServer(app);
+		await new Promise<void>((resolve) => server.listen(0, resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+	});
+
+	afterAll(async () => {
+		jest.restoreAllMocks();
+		await new Promise((resolve) => server.close(resolve));
+	});
+
+	const uploadImage = (projectId: string, version: number): Promise<Response> =>
+		fetch(
+			`${baseUrl}/projects/${projectId}/scenes/1/image?version=${version}`,
+			{
+				method: "PUT",
+				headers: { "Content-Type": "image/jpeg" },
+				body: JPEG_IMAGE,
+			}
+		);
+
+	it("stores a JPEG scene image that can be downloaded again", async () => {
+		const project = await createProject();
+
+		const upload = await uploadImage(project.projectId, 1);
+		expect(upload.status).toBe(202);
+		expect((await upload.json()).version).toBe(2);
+
+		const saved = await projectService.getProjectManifest(project.projectId);
+		const imageFilename = saved?.scenes[0].imageFilename as string;
+		expect(imageFilename).toMatch(/\.jpg$/);
+		expect(saved?.storyboardVersion).toBe(2);
+
+		const download = await fetch(`${baseUrl}/files/images/${imageFilename}`);
+		expect(download.status).toBe(200);
+		expect(download.headers.get("content-type")).toMatch(/^image\/jpeg/);
+		expect(Buffer.from(await download.arrayBuffer())).toEqual(JPEG_IMAGE);
+	});
+
+	it("rejects an upload made against an old storyboard version", async () => {
+		const project = await createProject();
+		expect((await uploadImage(project.projectId, 1)).status).toBe(202);
+
+		const stale = await uploadImage(project.projectId, 1);
+		expect(stale.status).toBe(409);
+		expect(await stale.json()).toMatchObject({
+			code: "CONFLICT",
+			details: { currentVersion: 2 },
+		});
+	});
+});
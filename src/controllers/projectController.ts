@@ -0,0 +1,386 @@
+import { Request, Response, NextFunction } from "express";
+import { v4 as uuidv4 } from "uuid";
+import { RenderRequestBody } from "../types/express.d";
+import * as jobService from "../services/jobService";
+import * as projectService from "../services/projectService";
+import {
+	runProjectRender,
+	runSceneRegeneration,
+} from "../services/storyPipelineService";
+import * as imageService from "../services/imageService";
+import { parseGenerationOptions } from "../services/generationService";
+import { getApiBaseUrl } from "../services/artifactService";
+import {
+	presentProject,
+	presentStoryboard,
+} from "../presenters/projectPresenter";
+import {
+	applySceneImageReplacement,
+	applyStoryboardEdits,
+	StoryboardOperation,
+} from "../services/storyboardService";
+import { pickRenderRequest, resolveRenderOptions } from "./renderOptions";
+import { getRequestTenant } from "../middlewares/authMiddleware";
+import {
+	ConflictError,
+	NotFoundError,
+	ValidationError,
+} from "../errors/appErrors";
+
+// Returns a saved project: its scenes, assets and past renders
+export const getProject = async (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+		res.status(200).json(presentProject(manifest, getApiBaseUrl(req)));
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Re-renders a saved project's video with new render options, reusing its
+// images and narration. Options left out of the body keep the values of the
+// project's latest render. Responds with a job ID like POST /story-to-images.
+export const renderProject = async (
+	req: Request<{ id: string }, {}, RenderRequestBody>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+
+		const overrides = Object.fromEntries(
+			Object.entries(pickRenderRequest(req.body || {})).filter(
+				([, value]) => value !== undefined
+			)
+		);
+		// A null option clears the stored one (e.g. "music": null drops the bed)
+		const renderRequest = pickRenderRequest(
+			Object.fromEntries(
+				Object.entries({ ...manifest.renderRequest, ...overrides }).filter(
+					([, value]) => value !== null
+				)
+			)
+		);
+		const renderOptions = await resolveRenderOptions(
+			renderRequest,
+			manifest.tenantId
+		);
+		const job = jobService.createJob(getRequestTenant(req).id);
+
+		void runProjectRender(job.id, manifest, renderOptions, renderRequest);
+
+		res.status(202).json({
+			message: "Project render started.",
+			projectId: manifest.projectId,
+			jobId: job.id,
+			statusUrl: `${req.baseUrl}/jobs/${job.id}`,
+		});
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Pins or unpins a project. Pinned projects and all their files are kept
+// by the retention sweeper regardless of age or the total size limit.
+const setProjectPinned = async (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction,
+	pinned: boolean
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+		const updated = await projectService.updateProjectManifest(
+			manifest.projectId,
+			(saved) => {
+				saved.pinned = pinned;
+			}
+		);
+		res.status(200).json(presentProject(updated, getApiBaseUrl(req)));
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+export const pinProject = (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => setProjectPinned(req, res, next, true);
+
+export const unpinProject = (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => setProjectPinned(req, res, next, false);
+
+// Body of POST /projects/:id/scenes/:index/regenerate
+interface RegenerateSceneBody {
+	sceneText?: string; // Replaces the scene's narration text
+	prompt?: string; // Hand-written image prompt, used as-is
+}
+
+const parseSceneIndex = (
+	manifest: projectService.ProjectManifest,
+	value: string
+): number => {
+	const sceneIndex = Number(value);
+	if (
+		!Number.isInteger(sceneIndex) ||
+		sceneIndex < 1 ||
+		sceneIndex > manifest.scenes.length
+	) {
+		throw ValidationError.forField(
+			"index",
+			`Scene index must be between 1 and ${manifest.scenes.length}.`
+		);
+	}
+	return sceneIndex;
+};
+
+// ?version=N on requests with a raw body, which has no room for it
+const parseStoryboardVersion = (value: unknown): number => {
+	const version = Number(value);
+	if (value === undefined || !Number.isInteger(version) || version < 1) {
+		throw ValidationError.forField(
+			"version",
+			"version must be the storyboard version the change was made against."
+		);
+	}
+	return version;
+};
+
+// Run inside updateProjectManifest, so no other edit can slip in between
+const assertStoryboardVersion = (
+	manifest: projectService.ProjectManifest,
+	version: number
+): void => {
+	if (manifest.storyboardVersion !== version) {
+		throw new ConflictError(
+			`Storyboard has changed since version ${version}; reload and retry.`,
+			{ currentVersion: manifest.storyboardVersion }
+		);
+	}
+};
+
+// Regenerates one scene's image, optionally from edited scene text or a
+// hand-written prompt, then recompiles the video with the other scenes as
+// they are. Responds with a job ID.
+export const regenerateScene = async (
+	req: Request<{ id: string; index: string }, {}, RegenerateSceneBody>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+		const sceneIndex = parseSceneIndex(manifest, req.params.index);
+		const sceneText = req.body.sceneText?.trim();
+		const prompt = req.body.prompt?.trim();
+		// Fail now rather than in the job if the provider is no longer usable
+		parseGenerationOptions(manifest.models);
+		const renderOptions = await resolveRenderOptions(
+			manifest.renderRequest,
+			manifest.tenantId
+		);
+		const job = jobService.createJob(getRequestTenant(req).id);
+
+		void runSceneRegeneration(
+			job.id,
+			manifest,
+			{ sceneIndex, sceneText, prompt },
+			renderOptions
+		);
+
+		res.status(202).json({
+			message: `Scene ${sceneIndex} regeneration started.`,
+			projectId: manifest.projectId,
+			jobId: job.id,
+			statusUrl: `${req.baseUrl}/jobs/${job.id}`,
+		});
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Replaces one scene's image with an uploaded PNG, JPEG or WebP (raw image/*
+// body) as a new storyboard version, then recompiles the video. Responds
+// with a job ID, or 409 if the storyboard has moved on since ?version=N.
+export const replaceSceneImage = async (
+	req: Request<{ id: string; index: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+		const sceneIndex = parseSceneIndex(manifest, req.params.index);
+		const version = parseStoryboardVersion(req.query.version);
+		if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+			return next(
+				new ValidationError(
+					"Scene image must be sent as a raw image/* request body."
+				)
+			);
+		}
+		const extension = imageService.detectImageExtension(req.body);
+		if (!extension) {
+			return next(
+				new ValidationError("Scene image must be a PNG, JPEG or WebP file.")
+			);
+		}
+		const renderOptions = await resolveRenderOptions(
+			manifest.renderRequest,
+			manifest.tenantId
+		);
+
+		const updated = await projectService.updateProjectManifest(
+			manifest.projectId,
+			async (saved) => {
+				assertStoryboardVersion(saved, version);
+				const savedImage = await imageService.saveImageToFile(
+					req.body.toString("base64"),
+					`scene_${sceneIndex}_upload_${uuidv4()}`,
+					extension
+				);
+				applySceneImageReplacement(saved, sceneIndex, savedImage.filename);
+			}
+		);
+		const job = jobService.createJob(getRequestTenant(req).id);
+
+		void runProjectRender(
+			job.id,
+			updated,
+			renderOptions,
+			updated.renderRequest
+		);
+
+		res.status(202).json({
+			message: `Scene ${sceneIndex} image replaced; recompiling video.`,
+			projectId: manifest.projectId,
+			version: updated.storyboardVersion,
+			jobId: job.id,
+			statusUrl: `${req.baseUrl}/jobs/${job.id}`,
+		});
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Returns a project's current storyboard and its version
+export const getStoryboard = async (
+	req: Request<{ id: string }>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+		res.status(200).json(presentStoryboard(manifest, getApiBaseUrl(req)));
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Body of PATCH /projects/:id/storyboard, checked by editStoryboardSchema
+interface EditStoryboardBody {
+	version: number; // Storyboard version the edits were made against
+	operations: StoryboardOperation[];
+}
+
+// Applies storyboard edits (reorder, merge, split, update) as one new
+// version. Responds 409 if the storyboard has moved on since `version`.
+// The edits take effect on the next render.
+export const editStoryboard = async (
+	req: Request<{ id: string }, {}, EditStoryboardBody>,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const { version, operations } = req.body;
+		const manifest = await projectService.getTenantProjectManifest(
+			req.params.id,
+			getRequestTenant(req).id
+		);
+		if (!manifest) {
+			return next(new NotFoundError("Project not found."));
+		}
+
+		const updated = await projectService.updateProjectManifest(
+			manifest.projectId,
+			(saved) => {
+				assertStoryboardVersion(saved, version);
+				applyStoryboardEdits(saved, operations);
+			}
+		);
+
+		res.status(200).json(presentStoryboard(updated, getApiBaseUrl(req)));
+	} catch (error) {
+		console.error(
+			"Project Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
@@ -0,0 +1,225 @@
+// Defaults and cross-field checks for the request options that shape the
+// rendered video. Shared by the story endpoint and project re-renders; types
+// and ranges are checked by the request schemas (see validation/).
+import {
+	RenderRequestBody,
+	CaptionRequestOptions,
+	TransitionRequestOptions,
+	MusicRequestOptions,
+	CardRequestOptions,
+	SceneOverlayRequestOptions,
+	WatermarkRequestOptions,
+} from "../types/express.d";
+import {
+	CaptionStyle,
+	DEFAULT_CAPTION_STYLE,
+} from "../services/subtitleService";
+import {
+	TextOverlayOptions,
+	TransitionOptions,
+} from "../services/videoService";
+import { MusicSettings, resolveMusicTrackPath } from "../services/musicService";
+import {
+	CardSettings,
+	WatermarkSettings,
+	resolveLogoPath,
+} from "../services/brandingService";
+import { RenderOptions } from "../services/renderService";
+import { resolveRenderSettings } from "../config/outputFormats";
+import { ValidationError } from "../errors/appErrors";
+
+const DEFAULT_TRANSITION_DURATION = 0.5; // Seconds
+const DEFAULT_TITLE_CARD_DURATION = 2.5; // Seconds
+const DEFAULT_END_CARD_DURATION = 3; // Seconds
+const DEFAULT_BRANDING_FONT = "Sans";
+
+// Fill in transition defaults; undefined means hard cuts
+const resolveTransition = (
+	transition: TransitionRequestOptions | undefined
+): TransitionOptions | undefined => {
+	if (!transition || !transition.type || transition.type === "none") {
+		return undefined;
+	}
+	return {
+		type: transition.type,
+		duration: transition.duration ?? DEFAULT_TRANSITION_DURATION,
+	};
+};
+
+// Check the music track exists and fill in mixing defaults
+const resolveMusic = async (
+	music: MusicRequestOptions | undefined,
+	tenantId: string
+): Promise<MusicSettings | undefined> => {
+	if (!music) return undefined;
+
+	await resolveMusicTrackPath(music, tenantId);
+	return {
+		libraryTrack: music.libraryTrack,
+		uploadId: music.uploadId,
+		volume: music.volume ?? 0.25,
+		narrationVolume: music.narrationVolume ?? 1,
+		fadeInSeconds: music.fadeInSeconds ?? 1.5,
+		fadeOutSeconds: music.fadeOutSeconds ?? 2,
+		duck: music.duck ?? true,
+	};
+};
+
+// Check a card's logo exists and fill in defaults. `field` is "titleCard"
+// or "endCard".
+const resolveCard = async (
+	card: CardRequestOptions | undefined,
+	field: string,
+	defaultDuration: number,
+	tenantId: string
+): Promise<CardSettings | undefined> => {
+	if (!card) return undefined;
+	if (!card.title && !card.subtitle && !card.logoUploadId) {
+		throw ValidationError.forField(
+			field,
+			`${field} needs a title, subtitle or logoUploadId.`
+		);
+	}
+	if (card.logoUploadId) {
+		await resolveLogoPath(
+			card.logoUploadId,
+			tenantId,
+			`${field}.logoUploadId`
+		);
+	}
+
+	return {
+		title: card.title,
+		subtitle: card.subtitle,
+		logoUploadId: card.logoUploadId,
+		duration: card.duration ?? defaultDuration,
+		backgroundColor: card.backgroundColor ?? "#000000",
+		textColor: card.textColor ?? "#FFFFFF",
+		fontName: card.fontName ?? DEFAULT_BRANDING_FONT,
+	};
+};
+
+// Fill in defaults for each scene's text overlay; null leaves a scene bare
+const resolveSceneOverlays = (
+	sceneOverlays: (SceneOverlayRequestOptions | null)[] | undefined
+): (TextOverlayOptions | null)[] | undefined => {
+	return sceneOverlays?.map((overlay) =>
+		overlay
+			? {
+					text: overlay.text,
+					position: overlay.position ?? "top",
+					fontSize: overlay.fontSize,
+					textColor: overlay.textColor ?? "#FFFFFF",
+					fontName: overlay.fontName ?? DEFAULT_BRANDING_FONT,
+			  }
+			: null
+	);
+};
+
+// Check the watermark logo exists and fill in defaults
+const resolveWatermark = async (
+	watermark: WatermarkRequestOptions | undefined,
+	tenantId: string
+): Promise<WatermarkSettings | undefined> => {
+	if (!watermark) return undefined;
+
+	await resolveLogoPath(
+		watermark.logoUploadId,
+		tenantId,
+		"watermark.logoUploadId"
+	);
+	return {
+		logoUploadId: watermark.logoUploadId,
+		position: watermark.position ?? "bottom_right",
+		opacity: watermark.opacity ?? 0.7,
+		scale: watermark.scale ?? 0.15,
+	};
+};
+
+// Turn the request's caption options into a burn-in style, or undefined when
+// captions should only be delivered as SRT/WebVTT files.
+const resolveCaptionStyle = (
+	captions: CaptionRequestOptions | undefined
+): CaptionStyle | undefined => {
+	if (!captions?.burnIn) return undefined;
+
+	return {
+		...DEFAULT_CAPTION_STYLE,
+		...Object.fromEntries(
+			Object.entries(captions).filter(([, value]) => value !== undefined)
+		),
+	};
+};
+
+// Check the files a request body refers to and fill in defaults. Music and
+// logo uploads must belong to `tenantId`.
+export const resolveRenderOptions = async (
+	body: RenderRequestBody,
+	tenantId: string
+): Promise<RenderOptions> => {
+	const {
+		captions,
+		motion,
+		sceneMotions,
+		transition,
+		output,
+		music,
+		titleCard,
+		endCard,
+		sceneOverlays,
+		watermark,
+	} = body;
+
+	return {
+		tenantId,
+		render: resolveRenderSettings(output),
+		motion,
+		sceneMotions,
+		transition: resolveTransition(transition),
+		captionStyle: resolveCaptionStyle(captions),
+		music: await resolveMusic(music, tenantId),
+		titleCard: await resolveCard(
+			titleCard,
+			"titleCard",
+			DEFAULT_TITLE_CARD_DURATION,
+			tenantId
+		),
+		endCard: await resolveCard(
+			endCard,
+			"endCard",
+			DEFAULT_END_CARD_DURATION,
+			tenantId
+		),
+		sceneOverlays: resolveSceneOverlays(sceneOverlays),
+		watermark: await resolveWatermark(watermark, tenantId),
+	};
+};
+
+// Pick the render options out of a request body, so only those are stored
+// with a project
+export const pickRenderRequest = (body: RenderRequestBody): RenderRequestBody => {
+	const {
+		captions,
+		motion,
+		sceneMotions,
+		transition,
+		output,
+		music,
+		titleCard,
+		endCard,
+		sceneOverlays,
+		watermark,
+	} = body;
+	return {
+		captions,
+		motion,
+		sceneMotions,
+		transition,
+		output,
+		music,
+		titleCard,
+		endCard,
+		sceneOverlays,
+		watermark,
+	};
+};
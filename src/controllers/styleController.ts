@@ -0,0 +1,37 @@
+import { Request, Response, NextFunction } from "express";
+import {
+	STYLE_PRESETS,
+	TEMPLATE_PLACEHOLDERS,
+} from "../prompts/stylePresets";
+
+// Lists the art-style presets accepted as style.preset, with every version
+// of each, and the placeholders a custom style.template may use
+export const listStyles = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		res.status(200).json({
+			presets: STYLE_PRESETS.map((preset) => ({
+				id: preset.id,
+				name: preset.name,
+				description: preset.description,
+				latestVersion: preset.versions[preset.versions.length - 1].version,
+				versions: preset.versions.map((version) => ({
+					version: version.version,
+					style: version.style,
+					avoid: version.avoid,
+					hasTemplate: version.template !== undefined,
+				})),
+			})),
+			templatePlaceholders: TEMPLATE_PLACEHOLDERS,
+		});
+	} catch (error) {
+		console.error(
+			"Style Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
@@ -0,0 +1,69 @@
+import { Request, Response, NextFunction } from "express";
+import * as usageService from "../services/usageService";
+import { listTenants } from "../services/tenantService";
+import { getRequestTenant } from "../middlewares/authMiddleware";
+import { presentTenantUsage } from "../presenters/usagePresenter";
+import { ForbiddenError, ValidationError } from "../errors/appErrors";
+
+const MAX_HISTORY_DAYS = 90;
+
+// ?days=N, how many days of history to include (default 7)
+const parseHistoryDays = (value: unknown): number => {
+	if (value === undefined) return 7;
+	const days = Number(value);
+	if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+		throw ValidationError.forField(
+			"days",
+			`days must be an integer between 1 and ${MAX_HISTORY_DAYS}.`
+		);
+	}
+	return days;
+};
+
+// Usage and remaining quota for the caller's own tenant
+export const getUsage = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const tenant = getRequestTenant(req);
+		const days = parseHistoryDays(req.query.days);
+		const history = await usageService.getUsage(tenant.id, days);
+		res.status(200).json(presentTenantUsage(tenant, history));
+	} catch (error) {
+		console.error(
+			"Usage Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
+
+// Usage of every tenant; only for tenants marked "admin"
+export const listTenantUsage = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		if (!getRequestTenant(req).admin) {
+			return next(
+				new ForbiddenError("Only admin tenants can read other tenants' usage.")
+			);
+		}
+		const days = parseHistoryDays(req.query.days);
+		const tenants = [];
+		for (const tenant of listTenants()) {
+			const history = await usageService.getUsage(tenant.id, days);
+			tenants.push(presentTenantUsage(tenant, history));
+		}
+		res.status(200).json({ tenants });
+	} catch (error) {
+		console.error(
+			"Usage Controller Error:",
+			error instanceof Error ? error.message : String(error)
+		);
+		next(error);
+	}
+};
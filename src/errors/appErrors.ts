@@ -0,0 +1,163 @@
+// Error types surfaced by the API. Each carries the HTTP status it maps to
+// and a stable, machine-readable code that clients can branch on; the error
+// handler (middlewares/errorMiddleware.ts) turns them into JSON responses.
+
+export type ErrorCode =
+	| "VALIDATION_ERROR"
+	| "INVALID_JSON"
+	| "PAYLOAD_TOO_LARGE"
+	| "UNAUTHORIZED"
+	| "FORBIDDEN"
+	| "NOT_FOUND"
+	| "CONFLICT"
+	| "QUOTA_EXCEEDED"
+	| "SERVICE_NOT_CONFIGURED"
+	| "UPSTREAM_MODEL_ERROR"
+	| "UPSTREAM_RATE_LIMITED"
+	| "CONTENT_BLOCKED"
+	| "TTS_ERROR"
+	| "RENDER_ERROR"
+	| "STORAGE_ERROR"
+	| "INSUFFICIENT_STORAGE"
+	| "INTERNAL_ERROR";
+
+// One problem with one field of a request
+export interface FieldIssue {
+	field: string; // Dotted path, e.g. "output.width" or "sceneMotions[2]"
+	message: string;
+}
+
+export class AppError extends Error {
+	readonly status: number;
+	readonly code: ErrorCode;
+	readonly details?: unknown; // Extra data for the client, e.g. field issues
+
+	constructor(
+		message: string,
+		status: number,
+		code: ErrorCode,
+		details?: unknown
+	) {
+		super(message);
+		this.name = new.target.name;
+		this.status = status;
+		this.code = code;
+		this.details = details;
+	}
+}
+
+// --- Request errors ---
+
+export class ValidationError extends AppError {
+	declare readonly details: FieldIssue[];
+
+	constructor(message: string, details: FieldIssue[] = []) {
+		super(message, 400, "VALIDATION_ERROR", details);
+	}
+
+	// A single invalid field; the message doubles as the field issue
+	static forField(field: string, message: string): ValidationError {
+		return new ValidationError(message, [{ field, message }]);
+	}
+}
+
+export class UnauthorizedError extends AppError {
+	constructor(message: string = "A valid API key is required.") {
+		super(message, 401, "UNAUTHORIZED");
+	}
+}
+
+// The API key is valid but its tenant may not use this endpoint
+export class ForbiddenError extends AppError {
+	constructor(message: string) {
+		super(message, 403, "FORBIDDEN");
+	}
+}
+
+export class NotFoundError extends AppError {
+	constructor(message: string) {
+		super(message, 404, "NOT_FOUND");
+	}
+}
+
+export class ConflictError extends AppError {
+	constructor(message: string, details?: unknown) {
+		super(message, 409, "CONFLICT", details);
+	}
+}
+
+// The tenant has used up one of its daily quotas. The error handler sends
+// retryAfterSeconds as a Retry-After header.
+export class QuotaExceededError extends AppError {
+	readonly retryAfterSeconds: number;
+
+	constructor(message: string, details: unknown, retryAfterSeconds: number) {
+		super(message, 429, "QUOTA_EXCEEDED", details);
+		this.retryAfterSeconds = retryAfterSeconds;
+	}
+}
+
+// --- Server and upstream errors ---
+
+// A required API key or credential is missing from the environment
+export class ConfigurationError extends AppError {
+	constructor(message: string) {
+		super(message, 503, "SERVICE_NOT_CONFIGURED");
+	}
+}
+
+// A text or image model call failed
+export class UpstreamModelError extends AppError {
+	constructor(
+		message: string,
+		status: number = 502,
+		code: ErrorCode = "UPSTREAM_MODEL_ERROR"
+	) {
+		super(message, status, code);
+	}
+}
+
+// The model provider kept rejecting calls for quota after all retries
+export class UpstreamRateLimitError extends UpstreamModelError {
+	constructor(message: string) {
+		super(message, 503, "UPSTREAM_RATE_LIMITED");
+	}
+}
+
+// The model refused the prompt or withheld its output on safety grounds
+export class ContentBlockedError extends UpstreamModelError {
+	constructor(message: string) {
+		super(message, 422, "CONTENT_BLOCKED");
+	}
+}
+
+export class TtsError extends AppError {
+	constructor(message: string) {
+		super(message, 502, "TTS_ERROR");
+	}
+}
+
+// ffmpeg failed while building audio or video
+export class RenderError extends AppError {
+	constructor(message: string) {
+		super(message, 500, "RENDER_ERROR");
+	}
+}
+
+// Reading or writing generated files or project data failed
+export class StorageError extends AppError {
+	constructor(message: string) {
+		super(message, 500, "STORAGE_ERROR");
+	}
+}
+
+// Free disk space is below the configured minimum, so new work is refused
+export class InsufficientStorageError extends AppError {
+	constructor(message: string) {
+		super(message, 507, "INSUFFICIENT_STORAGE");
+	}
+}
+
+// Error code for any thrown value, for recording on background jobs
+export const getErrorCode = (error: unknown): ErrorCode =>
+	error instanceof AppError ? error.code : "INTERNAL_ERROR";
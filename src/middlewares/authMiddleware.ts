@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from "express";
+import { UnauthorizedError } from "../errors/appErrors";
+import { findTenantByApiKey, Tenant } from "../services/tenantService";
+import { RequestWithTenant } from "../types/express.d";
+
+// Reads the key from the X-API-Key header or an "Authorization: Bearer" header
+export const getRequestApiKey = (req: Request): string | undefined => {
+	const headerKey = req.get("x-api-key");
+	if (headerKey) return headerKey;
+	const authorization = req.get("authorization");
+	if (authorization?.startsWith("Bearer ")) {
+		return authorization.slice("Bearer ".length).trim();
+	}
+	return undefined;
+};
+
+// Client API keys belong to tenants (see services/tenantService.ts). When
+// no keys are configured the API is open, which is only meant for local
+// development.
+export const isValidApiKey = (key: string | undefined): boolean =>
+	findTenantByApiKey(key) !== null;
+
+// Resolves the caller's tenant and attaches it to the request
+export const requireApiKey = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		const tenant = findTenantByApiKey(getRequestApiKey(req));
+		if (!tenant) {
+			return next(new UnauthorizedError());
+		}
+		(req as RequestWithTenant).tenant = tenant;
+		next();
+	} catch (error) {
+		next(error);
+	}
+};
+
+// The tenant attached by requireApiKey
+export const getRequestTenant = (req: Request): Tenant => {
+	const tenant = (req as RequestWithTenant).tenant;
+	if (!tenant) {
+		throw new Error("requireApiKey must run before tenant-scoped routes.");
+	}
+	return tenant;
+};
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from "express";
+import { assertDiskSpaceAvailable } from "../services/retentionService";
+
+// Refuses requests that start jobs or store files while free disk space is
+// below MIN_FREE_DISK_BYTES (507 INSUFFICIENT_STORAGE)
+export const requireDiskSpace = async (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	try {
+		await assertDiskSpaceAvailable();
+		next();
+	} catch (error) {
+		next(error);
+	}
+};
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction } from "express";
+import {
+	AppError,
+	NotFoundError,
+	QuotaExceededError,
+} from "../errors/appErrors";
+
+// Errors raised by express.json()/express.raw() for unreadable bodies
+interface BodyParserError extends Error {
+	type?: string;
+	status?: number;
+}
+
+// Map anything thrown by a route to an AppError
+const toAppError = (err: unknown): AppError | null => {
+	if (err instanceof AppError) return err;
+	const parserError = err as BodyParserError;
+	if (parserError?.type === "entity.parse.failed") {
+		return new AppError("Request body is not valid JSON.", 400, "INVALID_JSON");
+	}
+	if (parserError?.type === "entity.too.large") {
+		return new AppError(
+			"Request body is too large.",
+			413,
+			"PAYLOAD_TOO_LARGE"
+		);
+	}
+	return null;
+};
+
+// Responds 404 for routes that do not exist
+export const notFoundHandler = (
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	next(new NotFoundError(`No route for ${req.method} ${req.path}.`));
+};
+
+// Sends every error as { message, code, details? }. Unexpected errors are
+// logged with their stack and reported as a generic 500.
+export const errorHandler = (
+	err: unknown,
+	req: Request,
+	res: Response,
+	next: NextFunction
+) => {
+	if (res.headersSent) {
+		return next(err);
+	}
+
+	const appError = toAppError(err);
+	if (appError) {
+		if (appError.status >= 500) {
+			console.error(`Error Handler [${appError.code}]:`, appError.message);
+		}
+		if (appError instanceof QuotaExceededError) {
+			res.setHeader("Retry-After", String(appError.retryAfterSeconds));
+		}
+		res.status(appError.status).json({
+			message: appError.message,
+			code: appError.code,
+			details: appError.details,
+		});
+		return;
+	}
+
+	const error = err instanceof Error ? err : new Error(String(err));
+	console.error("Error Handler:", error.message);
+	console.error(error.stack);
+	// Avoid sending internal messages in production
+	res.status(500).json({
+		message:
+			process.env.NODE_ENV === "development"
+				? error.message
+				: "Internal server error.",
+		code: "INTERNAL_ERROR",
+	});
+};
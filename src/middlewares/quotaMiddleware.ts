@@ -0,0 +1,115 @@
+import { Request, Response, NextFunction } from "express";
+import { getRequestTenant } from "./authMiddleware";
+import {
+	assertWithinQuota,
+	BYTES_PER_MEGABYTE,
+	UsageCounters,
+} from "../services/usageService";
+import { estimateNarrationSeconds } from "../services/tts";
+import { getSceneCountForDuration } from "../services/generationService";
+import {
+	getTenantProjectManifest,
+	ProjectManifest,
+} from "../services/projectService";
+import { StoryRequestBody } from "../types/express.d";
+
+// What a request is expected to use, worked out before any work starts
+export type UsageEstimator = (
+	req: Request
+) => Partial<UsageCounters> | Promise<Partial<UsageCounters>>;
+
+// Refuses the request with 429 QUOTA_EXCEEDED when the caller's tenant has
+// reached its daily limit for any of the resources the route consumes, or
+// when the route's estimated usage does not fit in what is left
+export const requireQuota =
+	(estimateUsage: UsageEstimator) =>
+	async (req: Request, res: Response, next: NextFunction) => {
+		try {
+			await assertWithinQuota(getRequestTenant(req), await estimateUsage(req));
+			next();
+		} catch (error) {
+			next(error);
+		}
+	};
+
+// POST /generate
+export const estimateImageUsage: UsageEstimator = () => ({ images: 1 });
+
+// POST /story-to-images: one image per scene, and narration and video as
+// long as the story takes to read. With a target duration the narration is
+// sped up to fit it or padded to it (see planScenesForTarget).
+export const estimateStoryUsage: UsageEstimator = (req) => {
+	const { story, sceneCount, targetDurationSeconds, narration } =
+		req.body as StoryRequestBody;
+	const readingSeconds = estimateNarrationSeconds(
+		story,
+		narration?.speakingRate
+	);
+	if (targetDurationSeconds !== undefined) {
+		return {
+			images: getSceneCountForDuration(targetDurationSeconds),
+			narrationSeconds: Math.min(readingSeconds, targetDurationSeconds),
+			renderMinutes: targetDurationSeconds / 60,
+		};
+	}
+	return {
+		images: sceneCount ?? getSceneCountForDuration(readingSeconds),
+		narrationSeconds: readingSeconds,
+		renderMinutes: readingSeconds / 60,
+	};
+};
+
+// Narration still to synthesize for a project's scenes, and the length of
+// the video they make
+const estimateProjectRender = (
+	manifest: ProjectManifest
+): { narrationSeconds: number; renderMinutes: number } => {
+	let narrationSeconds = 0;
+	let videoSeconds = 0;
+	for (const scene of manifest.scenes) {
+		const sceneSeconds = scene.audioFilename
+			? scene.audioDuration
+			: estimateNarrationSeconds(
+					scene.sceneText,
+					manifest.narration?.speakingRate
+			  );
+		if (!scene.audioFilename) narrationSeconds += sceneSeconds;
+		videoSeconds += scene.pinnedDuration ?? sceneSeconds;
+	}
+	return { narrationSeconds, renderMinutes: videoSeconds / 60 };
+};
+
+// The caller's project named in the route, or null so the controller can
+// answer 404
+const getRouteProject = (req: Request): Promise<ProjectManifest | null> =>
+	getTenantProjectManifest(req.params.id, getRequestTenant(req).id);
+
+// POST /projects/:id/render and PUT /projects/:id/scenes/:index/image
+export const estimateProjectRenderUsage: UsageEstimator = async (req) => {
+	const manifest = await getRouteProject(req);
+	return manifest ? estimateProjectRender(manifest) : {};
+};
+
+// POST /projects/:id/scenes/:index/regenerate: one image, plus narration
+// for edited scene text
+export const estimateSceneRegenerationUsage: UsageEstimator = async (req) => {
+	const manifest = await getRouteProject(req);
+	if (!manifest) return {};
+	const render = estimateProjectRender(manifest);
+	const sceneText: string | undefined = req.body?.sceneText;
+	return {
+		images: 1,
+		narrationSeconds:
+			render.narrationSeconds +
+			(sceneText
+				? estimateNarrationSeconds(sceneText, manifest.narration?.speakingRate)
+				: 0),
+		renderMinutes: render.renderMinutes,
+	};
+};
+
+// POST /music and POST /logos, by the declared body size. The size actually
+// stored is recorded by the controller.
+export const estimateUploadUsage: UsageEstimator = (req) => ({
+	uploadMegabytes: Number(req.get("content-length") || 0) / BYTES_PER_MEGABYTE,
+});
@@ -0,0 +1,102 @@
+// Shapes job results and events for API responses, replacing stored
+// artifact filenames with full download URLs
+import { buildArtifactUrl } from "../services/artifactService";
+import { StoryJobEvent, StoryJobResult } from "../services/jobService";
+import {
+	SceneProcessingResult,
+	VideoCompilationResult,
+} from "../types/story";
+import { WriteSubtitlesResult } from "../services/subtitleService";
+
+export const presentScene = (
+	scene: SceneProcessingResult,
+	baseUrl: string
+) => ({
+	sceneIndex: scene.sceneIndex,
+	sceneText: scene.sceneText,
+	refinedPrompt: scene.refinedPrompt,
+	imageUrl: scene.imageFilename
+		? buildArtifactUrl(baseUrl, "images", scene.imageFilename)
+		: null,
+	audioUrl: scene.audioFilename
+		? buildArtifactUrl(baseUrl, "audio", scene.audioFilename)
+		: null,
+	audioDuration: scene.audioDuration,
+	pinnedDuration: scene.pinnedDuration,
+	error: scene.error,
+});
+
+export const presentSubtitles = (
+	subtitles: WriteSubtitlesResult | null,
+	baseUrl: string
+) =>
+	subtitles
+		? {
+				srtUrl: buildArtifactUrl(baseUrl, "subtitles", subtitles.srtFilename),
+				vttUrl: buildArtifactUrl(baseUrl, "subtitles", subtitles.vttFilename),
+		  }
+		: null;
+
+export const presentVideo = (
+	videoResult: VideoCompilationResult | null,
+	baseUrl: string
+) =>
+	videoResult
+		? {
+				videoUrl: buildArtifactUrl(
+					baseUrl,
+					"videos",
+					videoResult.videoFilename
+				),
+		  }
+		: null;
+
+export const presentJobResult = (result: StoryJobResult, baseUrl: string) => ({
+	projectId: result.projectId,
+	storyBible: result.storyBible,
+	storyBibleError: result.storyBibleError,
+	visualPromptsError: result.visualPromptsError,
+	durationWarning: result.durationWarning,
+	characterVoices: result.characterVoices,
+	sceneImageResults: result.sceneImageResults.map((scene) =>
+		presentScene(scene, baseUrl)
+	),
+	fullAudioUrl: result.fullAudioFilename
+		? buildArtifactUrl(baseUrl, "audio", result.fullAudioFilename)
+		: null,
+	subtitles: presentSubtitles(result.subtitles, baseUrl),
+	videoResult: presentVideo(result.videoResult, baseUrl),
+	videoError: result.videoError,
+	cacheStats: result.cacheStats,
+});
+
+// Events that reference artifacts get URLs; the rest pass through unchanged
+export const presentJobEvent = (event: StoryJobEvent, baseUrl: string) => {
+	switch (event.type) {
+		case "image_saved":
+		case "image_failed":
+			return { type: event.type, scene: presentScene(event.scene, baseUrl) };
+		case "audio_ready":
+			return {
+				type: event.type,
+				fullAudioUrl: buildArtifactUrl(
+					baseUrl,
+					"audio",
+					event.fullAudioFilename
+				),
+				durationSeconds: event.durationSeconds,
+			};
+		case "video_ready":
+			return {
+				type: event.type,
+				videoResult: presentVideo(event.videoResult, baseUrl),
+			};
+		case "job_completed":
+			return {
+				type: event.type,
+				result: presentJobResult(event.result, baseUrl),
+			};
+		default:
+			return event;
+	}
+};
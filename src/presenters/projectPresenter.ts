@@ -0,0 +1,43 @@
+// Shapes saved project manifests for API responses
+import { buildArtifactUrl } from "../services/artifactService";
+import { ProjectManifest } from "../services/projectService";
+import {
+	presentScene,
+	presentSubtitles,
+	presentVideo,
+} from "./jobPresenter";
+
+export const presentProject = (manifest: ProjectManifest, baseUrl: string) => ({
+	projectId: manifest.projectId,
+	createdAt: manifest.createdAt,
+	updatedAt: manifest.updatedAt,
+	pinned: manifest.pinned === true,
+	story: manifest.story,
+	models: manifest.models,
+	narration: manifest.narration,
+	style: manifest.style ?? null,
+	storyBible: manifest.storyBible,
+	scenes: manifest.scenes.map((scene) => presentScene(scene, baseUrl)),
+	storyboardVersion: manifest.storyboardVersion,
+	fullAudioUrl: manifest.fullAudioFilename
+		? buildArtifactUrl(baseUrl, "audio", manifest.fullAudioFilename)
+		: null,
+	subtitles: presentSubtitles(manifest.subtitles, baseUrl),
+	renderRequest: manifest.renderRequest,
+	renders: manifest.renders.map((render) => ({
+		...presentVideo(render, baseUrl),
+		renderedAt: render.renderedAt,
+		storyboardVersion: render.storyboardVersion,
+		renderRequest: render.renderRequest,
+	})),
+});
+
+export const presentStoryboard = (
+	manifest: ProjectManifest,
+	baseUrl: string
+) => ({
+	projectId: manifest.projectId,
+	version: manifest.storyboardVersion,
+	scenes: manifest.scenes.map((scene) => presentScene(scene, baseUrl)),
+	history: manifest.storyboardHistory,
+});
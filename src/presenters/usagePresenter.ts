@@ -0,0 +1,55 @@
+// Shapes tenant usage and quotas for API responses
+import { Tenant } from "../services/tenantService";
+import {
+	getLimit,
+	getQuotaResetTime,
+	QuotaKind,
+	UsageCounters,
+} from "../services/usageService";
+
+const QUOTA_KINDS: QuotaKind[] = [
+	"images",
+	"narrationSeconds",
+	"renderMinutes",
+	"uploadMegabytes",
+];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const presentCounters = (counters: UsageCounters): UsageCounters => ({
+	images: counters.images,
+	narrationSeconds: round(counters.narrationSeconds),
+	renderMinutes: round(counters.renderMinutes),
+	uploadMegabytes: round(counters.uploadMegabytes),
+});
+
+// `history` is newest first and starts with today
+export const presentTenantUsage = (
+	tenant: Tenant,
+	history: { date: string; usage: UsageCounters }[]
+) => {
+	const today = history[0].usage;
+	const limits = {} as Record<QuotaKind, number | null>;
+	const remaining = {} as Record<QuotaKind, number | null>;
+	for (const kind of QUOTA_KINDS) {
+		const limit = getLimit(tenant, kind);
+		// null means unlimited
+		limits[kind] = limit > 0 ? limit : null;
+		remaining[kind] = limit > 0 ? round(Math.max(limit - today[kind], 0)) : null;
+	}
+	return {
+		tenantId: tenant.id,
+		name: tenant.name,
+		limits,
+		today: {
+			date: history[0].date,
+			used: presentCounters(today),
+			remaining,
+			resetsAt: getQuotaResetTime().toISOString(),
+		},
+		history: history.map(({ date, usage }) => ({
+			date,
+			...presentCounters(usage),
+		})),
+	};
+};
@@ -1,4 +1,79 @@
 // src/prompts/imagePrompts.ts
-export const getRefinementPrompt = (initialPrompt: string): string => {
-	return `Enhance the following user request into a detailed and vivid prompt suitable for an image generation model. Focus on visual details, atmosphere, and style. User request: "${initialPrompt}"`;
+import { ImageStyle, StoryBible } from "../types/story";
+import {
+	DEFAULT_REFINEMENT_TEMPLATE,
+	getTemplatePlaceholders,
+	renderTemplate,
+} from "./stylePresets";
+
+// Render a story bible as a compact reference block for prompts
+export const formatStoryBible = (storyBible: StoryBible): string => {
+	const lines = [`Art style: ${storyBible.artStyle}`, `Era: ${storyBible.era}`];
+	for (const character of storyBible.characters) {
+		lines.push(`Character "${character.name}": ${character.visualDescription}`);
+	}
+	for (const location of storyBible.locations) {
+		lines.push(`Location "${location.name}": ${location.visualDescription}`);
+	}
+	return lines.join("\n");
+};
+
+// Fills in the style's refinement template (the default one without a
+// style). Style and story bible parts the template has no placeholder for
+// are appended to it.
+export const getRefinementPrompt = (
+	initialPrompt: string,
+	storyBible?: StoryBible,
+	style?: ImageStyle
+): string => {
+	const template = style?.template ?? DEFAULT_REFINEMENT_TEMPLATE;
+	const used = new Set(getTemplatePlaceholders(template));
+	const avoid = style?.avoid.join(", ") ?? "";
+	const sections = [
+		renderTemplate(template, {
+			prompt: initialPrompt,
+			style: style?.style ?? "",
+			avoid,
+			storyBible: storyBible ? formatStoryBible(storyBible) : "",
+		}),
+	];
+	if (style?.style && !used.has("style")) {
+		sections.push(`Render it in this art style: ${style.style}.`);
+	}
+	if (avoid && !used.has("avoid")) {
+		sections.push(`Keep these out of the image: ${avoid}.`);
+	}
+	if (storyBible && !used.has("storyBible")) {
+		sections.push(`The image is one scene of a larger story. Keep it consistent with this visual reference: use the art style exactly as given, and describe any character or location that appears using its reference description.
+---
+${formatStoryBible(storyBible)}
+---`);
+	}
+	return sections.join("\n\n");
+};
+
+// Appended to the refined prompt sent to the image model, so the reference
+// still applies even if refinement dropped some of it
+export const withStoryBible = (
+	imagePrompt: string,
+	storyBible?: StoryBible
+): string => {
+	if (!storyBible) return imagePrompt;
+	return `${imagePrompt}
+
+Visual reference (stay consistent with it):
+${formatStoryBible(storyBible)}`;
+};
+
+// Appended to the prompt sent to the image model, so the style holds even
+// when refinement was skipped or drifted from it
+export const withImageStyle = (
+	imagePrompt: string,
+	style?: ImageStyle
+): string => {
+	if (!style || (!style.style && style.avoid.length === 0)) return imagePrompt;
+	const lines = [imagePrompt, ""];
+	if (style.style) lines.push(`Art style: ${style.style}`);
+	if (style.avoid.length > 0) lines.push(`Avoid: ${style.avoid.join(", ")}`);
+	return lines.join("\n");
 };
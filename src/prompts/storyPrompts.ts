@@ -0,0 +1,46 @@
+// src/prompts/storyPrompts.ts
+export const SCENE_DELIMITER = "<SCENE_BREAK>";
+export const PROMPT_DELIMITER = "<PROMPT_BREAK>";
+
+export const getSceneSplittingPrompt = (story: string): string => {
+	return `Analyze the following story and split it into distinct visual scenes. Each scene should represent a moment or location that can be visualized as a single image. Output *only* the scenes, separated by a unique delimiter like "${SCENE_DELIMITER}". Do not add any commentary before or after the scenes.
+
+Story:
+---
+${story}
+---
+
+Scenes (separated by "${SCENE_DELIMITER}"):
+`;
+};
+
+export const getVisualPromptsPrompt = (
+	story: string,
+	sceneTexts: string[]
+): string => {
+	return `Read the following story, then write exactly ${sceneTexts.length} visual scene descriptions suitable for an image generation model: one for each numbered scene below, in the same order. Each description should show what happens in its own scene, using the rest of the story only for context. Output *only* the descriptions, separated by the delimiter "${PROMPT_DELIMITER}". Do not add any commentary, numbering, or introduction before or after the descriptions.
+
+Story:
+---
+${story}
+---
+
+Scenes:
+${sceneTexts.map((text, i) => `${i + 1}. ${text}`).join("\n")}
+
+${sceneTexts.length} Visual Scene Descriptions (separated by "${PROMPT_DELIMITER}"):
+`;
+};
+
+export const getStoryBiblePrompt = (story: string): string => {
+	return `Read the following story and extract a visual reference ("story bible") that an illustrator can use to keep every scene consistent. Describe each recurring character's appearance (age, build, hair, clothing, distinguishing features), each important location, the era or time period, and a single art style for the whole story.
+
+Respond with *only* a JSON object of this shape, with no commentary:
+{"characters":[{"name":"...","visualDescription":"..."}],"locations":[{"name":"...","visualDescription":"..."}],"era":"...","artStyle":"..."}
+
+Story:
+---
+${story}
+---
+`;
+};
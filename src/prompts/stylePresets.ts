@@ -0,0 +1,93 @@
+// src/prompts/stylePresets.ts
+// Art-style presets and the refinement template, stored as data files under
+// prompts/styles and prompts/templates. Each file keeps every version of its
+// wording: add a version rather than editing one, so saved projects that
+// pinned it keep generating the same way.
+import refinementTemplate from "./templates/refinement.json";
+import anime from "./styles/anime.json";
+import watercolor from "./styles/watercolor.json";
+import cinematicPhoto from "./styles/cinematic-photo.json";
+import comic from "./styles/comic.json";
+import pixelArt from "./styles/pixel-art.json";
+
+export interface StylePresetVersion {
+	version: number;
+	template?: string; // Replaces the refinement template when set
+	style: string;
+	avoid: string[];
+}
+
+export interface StylePreset {
+	id: string;
+	name: string;
+	description: string;
+	versions: StylePresetVersion[]; // Oldest first
+}
+
+interface PromptTemplate {
+	id: string;
+	description: string;
+	versions: { version: number; template: string }[]; // Oldest first
+}
+
+// Placeholders a refinement template may use:
+//   {{prompt}}      the user request or scene text (required)
+//   {{style}}       the preset's style wording
+//   {{avoid}}       the preset's elements to avoid, comma-separated
+//   {{storyBible}}  the story bible reference block
+// Style, avoid and story bible parts a template leaves out are appended.
+export const TEMPLATE_PLACEHOLDERS = [
+	"prompt",
+	"style",
+	"avoid",
+	"storyBible",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z]+)\s*\}\}/g;
+
+export const STYLE_PRESETS: StylePreset[] = [
+	anime,
+	watercolor,
+	cinematicPhoto,
+	comic,
+	pixelArt,
+];
+
+const latest = <T extends { version: number }>(versions: T[]): T =>
+	versions[versions.length - 1];
+
+export const DEFAULT_REFINEMENT_TEMPLATE = latest(
+	(refinementTemplate as PromptTemplate).versions
+).template;
+
+// Placeholder names used in a template, in order of appearance
+export const getTemplatePlaceholders = (template: string): string[] =>
+	[...template.matchAll(PLACEHOLDER_PATTERN)].map((match) => match[1]);
+
+export const renderTemplate = (
+	template: string,
+	values: Record<TemplatePlaceholder, string>
+): string =>
+	template.replace(
+		PLACEHOLDER_PATTERN,
+		(_match, name: string) => values[name as TemplatePlaceholder] ?? ""
+	);
+
+// Look up "anime" (latest version) or "anime@1". Returns null for an
+// unknown preset or version.
+export const findStylePreset = (
+	reference: string
+): { preset: StylePreset; version: StylePresetVersion } | null => {
+	const [id, versionText] = reference.split("@");
+	const preset = STYLE_PRESETS.find((candidate) => candidate.id === id);
+	if (!preset) return null;
+	if (versionText === undefined) {
+		return { preset, version: latest(preset.versions) };
+	}
+	const version = preset.versions.find(
+		(candidate) => String(candidate.version) === versionText
+	);
+	return version ? { preset, version } : null;
+};
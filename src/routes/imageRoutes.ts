@@ -1,16 +1,113 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import * as imageController from "../controllers/imageController";
 import * as storyController from "../controllers/storyController";
+import * as jobController from "../controllers/jobController";
+import * as projectController from "../controllers/projectController";
+import * as musicController from "../controllers/musicController";
+import * as artifactController from "../controllers/artifactController";
+import * as usageController from "../controllers/usageController";
+import * as styleController from "../controllers/styleController";
+import * as brandingController from "../controllers/brandingController";
 import { generateImageWithGemini } from "../middlewares/geminiMiddleware";
+import { requireDiskSpace } from "../middlewares/diskSpaceMiddleware";
+import { requireApiKey } from "../middlewares/authMiddleware";
+import {
+	estimateImageUsage,
+	estimateProjectRenderUsage,
+	estimateSceneRegenerationUsage,
+	estimateStoryUsage,
+	estimateUploadUsage,
+	requireQuota,
+} from "../middlewares/quotaMiddleware";
+import { validateBody } from "../validation/schema";
+import {
+	editStoryboardSchema,
+	generateImageSchema,
+	projectRenderSchema,
+	regenerateSceneSchema,
+	storyRequestSchema,
+} from "../validation/requestSchemas";
 
 const router = Router();
 
+// Artifacts accept a signed URL instead of an API key; with several tenants
+// only a signed URL (see artifactController)
+router.get("/files/:type/:filename", artifactController.downloadArtifact);
+
+// Everything else needs a client API key, which selects the tenant
+router.use(requireApiKey);
+
 router.post(
 	"/generate",
+	validateBody(generateImageSchema),
+	requireQuota(estimateImageUsage),
+	requireDiskSpace,
 	generateImageWithGemini,
 	imageController.generateImage
 );
 
-router.post("/story-to-images", storyController.generateImagesFromStory);
+router.post(
+	"/story-to-images",
+	validateBody(storyRequestSchema),
+	requireQuota(estimateStoryUsage),
+	requireDiskSpace,
+	storyController.generateImagesFromStory
+);
+
+router.get("/jobs/:id", jobController.getJobStatus);
+router.get("/jobs/:id/events", jobController.streamJobEvents);
+
+router.get("/projects/:id", projectController.getProject);
+router.post(
+	"/projects/:id/render",
+	validateBody(projectRenderSchema),
+	requireQuota(estimateProjectRenderUsage),
+	requireDiskSpace,
+	projectController.renderProject
+);
+router.put("/projects/:id/pin", projectController.pinProject);
+router.delete("/projects/:id/pin", projectController.unpinProject);
+router.get("/projects/:id/storyboard", projectController.getStoryboard);
+router.patch(
+	"/projects/:id/storyboard",
+	validateBody(editStoryboardSchema),
+	projectController.editStoryboard
+);
+router.post(
+	"/projects/:id/scenes/:index/regenerate",
+	validateBody(regenerateSceneSchema),
+	requireQuota(estimateSceneRegenerationUsage),
+	requireDiskSpace,
+	projectController.regenerateScene
+);
+router.put(
+	"/projects/:id/scenes/:index/image",
+	requireQuota(estimateProjectRenderUsage),
+	requireDiskSpace,
+	express.raw({ type: "image/*", limit: "20mb" }),
+	projectController.replaceSceneImage
+);
+
+router.get("/styles", styleController.listStyles);
+
+router.get("/music", musicController.listTracks);
+router.post(
+	"/music",
+	requireQuota(estimateUploadUsage),
+	requireDiskSpace,
+	express.raw({ type: "audio/*", limit: "50mb" }),
+	musicController.uploadTrack
+);
+
+router.post(
+	"/logos",
+	requireQuota(estimateUploadUsage),
+	requireDiskSpace,
+	express.raw({ type: "image/*", limit: "10mb" }),
+	brandingController.uploadLogo
+);
+
+router.get("/usage", usageController.getUsage);
+router.get("/usage/tenants", usageController.listTenantUsage);
 
 export default router;
@@ -0,0 +1,135 @@
+import path from "path";
+import crypto from "crypto";
+import { Request } from "express";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+export type ArtifactType = "images" | "audio" | "videos" | "subtitles";
+
+// Where each artifact type is stored
+const ARTIFACT_DIRS: Record<ArtifactType, string> = {
+	images: LOCAL_OUTPUT_ROOT,
+	audio: path.join(LOCAL_OUTPUT_ROOT, "audio"),
+	videos: path.join(LOCAL_OUTPUT_ROOT, "videos"),
+	subtitles: path.join(LOCAL_OUTPUT_ROOT, "subtitles"),
+};
+
+// Content types by extension; anything else is not served
+const CONTENT_TYPES: Record<string, string> = {
+	".png": "image/png",
+	".jpg": "image/jpeg",
+	".jpeg": "image/jpeg",
+	".webp": "image/webp",
+	".wav": "audio/wav",
+	".mp4": "video/mp4",
+	".srt": "application/x-subrip",
+	".vtt": "text/vtt",
+	".ass": "text/x-ssa",
+};
+
+// How long signed artifact URLs stay valid
+const SIGNED_URL_TTL_SECONDS = 24 * 60 * 60;
+
+// Artifact names are generated by the server, so a strict pattern is enough
+// to rule out path traversal and hidden files
+const SAFE_FILENAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9._-]*$/;
+
+export const isArtifactType = (value: unknown): value is ArtifactType =>
+	typeof value === "string" && value in ARTIFACT_DIRS;
+
+export const ARTIFACT_TYPES = Object.keys(ARTIFACT_DIRS) as ArtifactType[];
+
+export const getArtifactDir = (type: ArtifactType): string =>
+	ARTIFACT_DIRS[type];
+
+// Content type served for a file, or undefined for extensions never served
+export const getArtifactContentType = (filename: string): string | undefined =>
+	CONTENT_TYPES[path.extname(filename).toLowerCase()];
+
+interface ResolvedArtifact {
+	root: string; // Directory the file must live in
+	filename: string;
+	contentType: string;
+}
+
+// Validate a requested artifact. Returns null for anything that is not a
+// plain, known filename inside the artifact type's directory.
+export const resolveArtifact = (
+	type: ArtifactType,
+	filename: string
+): ResolvedArtifact | null => {
+	if (!SAFE_FILENAME_PATTERN.test(filename) || filename.includes("..")) {
+		return null;
+	}
+	const contentType = getArtifactContentType(filename);
+	if (!contentType) return null;
+
+	const root = ARTIFACT_DIRS[type];
+	const resolved = path.resolve(root, filename);
+	if (path.dirname(resolved) !== path.resolve(root)) return null;
+
+	return { root, filename, contentType };
+};
+
+// --- Signed URLs ---
+// When ARTIFACT_URL_SECRET is set, artifact URLs carry an expiry and an
+// HMAC so they can be opened directly (e.g. in a <video> tag) without an
+// API key header.
+
+const signArtifact = (
+	type: ArtifactType,
+	filename: string,
+	expires: number,
+	secret: string
+): string =>
+	crypto
+		.createHmac("sha256", secret)
+		.update(`${type}/${filename}:${expires}`)
+		.digest("hex");
+
+export const verifyArtifactSignature = (
+	type: ArtifactType,
+	filename: string,
+	expires: unknown,
+	signature: unknown
+): boolean => {
+	const secret = process.env.ARTIFACT_URL_SECRET;
+	if (!secret || typeof expires !== "string" || typeof signature !== "string") {
+		return false;
+	}
+	const expiresAt = parseInt(expires, 10);
+	if (isNaN(expiresAt) || expiresAt < Math.floor(Date.now() / 1000)) {
+		return false;
+	}
+	const expected = Buffer.from(signArtifact(type, filename, expiresAt, secret));
+	const received = Buffer.from(signature);
+	return (
+		expected.length === received.length &&
+		crypto.timingSafeEqual(expected, received)
+	);
+};
+
+// Full URL for an artifact. baseUrl is the API root, e.g.
+// "https://reels.example.com/api/v1".
+export const buildArtifactUrl = (
+	baseUrl: string,
+	type: ArtifactType,
+	filename: string
+): string => {
+	const url = `${baseUrl}/files/${type}/${encodeURIComponent(filename)}`;
+	const secret = process.env.ARTIFACT_URL_SECRET;
+	if (!secret) return url;
+
+	const expires = Math.floor(Date.now() / 1000) + SIGNED_URL_TTL_SECONDS;
+	const signature = signArtifact(type, filename, expires, secret);
+	return `${url}?expires=${expires}&signature=${signature}`;
+};
+
+// API root used in artifact URLs. PUBLIC_BASE_URL (e.g.
+// "https://reels.example.com") wins over the request's own host, which is
+// what a client sees when the server sits behind a reverse proxy.
+export const getApiBaseUrl = (req: Request): string => {
+	const origin =
+		process.env.PUBLIC_BASE_URL?.replace(/\/+$/, "") ||
+		`${req.protocol}://${req.get("host")}`;
+	return `${origin}${req.baseUrl}`;
+};
@@ -1,11 +1,21 @@
-import say from "say";
+import ffmpeg from "fluent-ffmpeg";
 import path from "path";
 import fs from "fs/promises";
 import { v4 as uuidv4 } from "uuid";
 import ffprobe from "ffprobe";
 import ffprobeStatic from "ffprobe-static";
+import { getTtsProvider, TtsProviderName, TtsRequest } from "./tts";
+import { CacheScope, withCache } from "./cacheService";
+import {
+	AppError,
+	RenderError,
+	StorageError,
+	TtsError,
+} from "../errors/appErrors";
+import { getArtifactDir } from "./artifactService";
+import { syncFileIn, syncFileOut } from "./storage";
 
-const AUDIO_DIR = path.join(__dirname, "../../outputs/audio");
+const AUDIO_DIR = getArtifactDir("audio"); // Local copies; synced to storage
 
 // Ensure audio output directory exists
 const ensureAudioOutputDir = async (): Promise<void> => {
@@ -21,53 +31,52 @@ const ensureAudioOutputDir = async (): Promise<void> => {
 					`Failed to create audio output directory: ${AUDIO_DIR}`,
 					mkdirError
 				);
-				throw new Error(
+				throw new StorageError(
 					`Failed to create audio output directory: ${AUDIO_DIR}`
 				);
 			}
 		} else {
 			console.error("Error accessing audio output directory:", error);
-			throw new Error("Error accessing audio output directory.");
+			throw new StorageError("Error accessing audio output directory.");
 		}
 	}
 };
 
-// Helper to get audio duration using ffprobe
+// Helper to get audio duration using ffprobe. Scene timing, transitions and
+// subtitles all depend on it, so a failed probe is an error, not a guess.
 export const getAudioDuration = async (filePath: string): Promise<number> => {
+	let info: ffprobe.FFProbeResult;
 	try {
 		await fs.access(filePath);
-		const info = await ffprobe(filePath, { path: ffprobeStatic.path });
-		const duration = info?.streams?.[0]?.duration;
-		if (duration) {
-			console.log(
-				`Audio duration for ${path.basename(filePath)}: ${duration}s`
-			);
-			return parseFloat(duration);
-		} else {
-			console.warn(
-				`Could not determine duration for ${filePath}, defaulting to 1 second.`
-			);
-			return 1;
-		}
+		info = await ffprobe(filePath, { path: ffprobeStatic.path });
 	} catch (err) {
 		console.error(`ffprobe error for ${filePath}:`, err);
 		if (
 			err instanceof Error &&
 			(err as NodeJS.ErrnoException).code === "ENOENT"
 		) {
-			throw new Error(`Audio file not found: ${filePath}`);
+			throw new StorageError(`Audio file not found: ${filePath}`);
 		}
-		console.warn(`Defaulting duration to 1 second for ${filePath}.`);
-		return 1;
+		throw new RenderError(
+			`Failed to read audio duration for ${path.basename(filePath)}.`
+		);
+	}
+
+	const duration = parseFloat(info?.streams?.[0]?.duration ?? "");
+	if (!(duration > 0)) {
+		console.error(`Could not determine duration for ${filePath}:`, info);
+		throw new RenderError(
+			`Could not determine audio duration for ${path.basename(filePath)}.`
+		);
 	}
+	console.log(`Audio duration for ${path.basename(filePath)}: ${duration}s`);
+	return duration;
 };
 
-interface SynthesizeSpeechParams {
-	text: string;
+interface SynthesizeSpeechParams extends TtsRequest {
 	outputFilename?: string; // Optional: Filename without extension
-	// Note: Voice/speed options are limited and platform-dependent with say.js
-	// voice?: string;
-	// speed?: number; // Typically 1 is normal speed
+	provider?: TtsProviderName; // Defaults to TTS_PROVIDER, then the OS engine
+	cache?: CacheScope;
 }
 
 interface SynthesizeSpeechResult {
@@ -75,57 +84,128 @@ interface SynthesizeSpeechResult {
 	audioFilename: string;
 }
 
-// Using say.js export function
-export const synthesizeSpeech = (
+// Synthesize narration with the selected TTS provider
+export const synthesizeSpeech = async (
 	params: SynthesizeSpeechParams
 ): Promise<SynthesizeSpeechResult> => {
-	return new Promise(async (resolve, reject) => {
-		const {
-			text,
-			outputFilename: customFilename,
-			// voice, // Can pass voice name if known for the platform
-			// speed = 1
-		} = params;
-
-		try {
-			await ensureAudioOutputDir();
-
-			// Use .wav format as it's generally compatible across say/espeak/festival
-			const outputFilename = customFilename
-				? `${customFilename}.wav`
-				: `${uuidv4()}.wav`;
-			const outputPath = path.join(AUDIO_DIR, outputFilename);
-
-			console.log(
-				`Synthesizing speech (using OS TTS) for text: "${text.substring(
-					0,
-					50
-				)}..."`
-			);
-
-			// Use say.export - arguments: text, voice, speed, filename, callback
-			say.export(
-				text,
-				undefined,
-				1,
-				outputPath,
-				(err: Error | string | null) => {
-					if (err) {
-						// Handle potential string error or Error object
-						const errMsg = err instanceof Error ? err.message : String(err);
-						console.error("say.export Error:", errMsg);
-						return reject(
-							new Error(`Failed to synthesize speech using OS TTS: ${errMsg}`)
-						);
-					}
-					console.log(`Audio content written to file: ${outputPath}`);
-					resolve({ audioFilePath: outputPath, audioFilename: outputFilename });
-				}
-			);
-		} catch (error) {
-			// Catch errors from ensureAudioOutputDir or other setup issues
-			console.error("Error preparing speech synthesis:", error);
-			reject(error);
+	const {
+		outputFilename: customFilename,
+		provider: providerName,
+		cache,
+		...request
+	} = params;
+	const provider = getTtsProvider(providerName);
+
+	try {
+		await ensureAudioOutputDir();
+	} catch (error) {
+		// Catch errors from ensureAudioOutputDir or other setup issues
+		console.error("Error preparing speech synthesis:", error);
+		throw error;
+	}
+
+	// Every provider writes .wav so downstream ffmpeg steps see one format
+	const outputFilename = customFilename
+		? `${customFilename}.wav`
+		: `${uuidv4()}.wav`;
+	const outputPath = path.join(AUDIO_DIR, outputFilename);
+
+	console.log(
+		`Synthesizing speech (using ${provider.name} TTS) for text: "${request.text.substring(
+			0,
+			50
+		)}..."`
+	);
+
+	let synthesized = false;
+	const audio = await withCache(
+		cache,
+		"synthesizeSpeech",
+		{ provider: provider.name, ...request },
+		async () => {
+			try {
+				await provider.synthesizeToFile(request, outputPath);
+			} catch (error) {
+				if (error instanceof AppError) throw error;
+				throw new TtsError(
+					`${provider.name} TTS failed: ${
+						error instanceof Error ? error.message : String(error)
+					}`
+				);
+			}
+			synthesized = true;
+			return fs.readFile(outputPath);
 		}
+	);
+	if (!synthesized) {
+		await fs.writeFile(outputPath, audio);
+	}
+	await syncFileOut(outputPath);
+	console.log(`Audio content written to file: ${outputPath}`);
+	return { audioFilePath: outputPath, audioFilename: outputFilename };
+};
+
+interface ConcatenateAudioParams {
+	audioFilenames: string[]; // Files in AUDIO_DIR, joined in order
+	outputFilename?: string; // Optional: Filename without extension
+	durations?: (number | null)[]; // Optional: Pad with silence or trim each input to this many seconds
+}
+
+// Stitch several narration files into one continuous track.
+// Uses the concat filter (rather than the demuxer) so inputs with differing
+// sample rates or channel layouts are resampled consistently.
+export const concatenateAudioFiles = async (
+	params: ConcatenateAudioParams
+): Promise<SynthesizeSpeechResult> => {
+	const { audioFilenames, outputFilename: customFilename, durations } = params;
+
+	if (!audioFilenames || audioFilenames.length === 0) {
+		throw new Error("No audio files provided to concatenate.");
+	}
+
+	await ensureAudioOutputDir();
+
+	const outputFilename = customFilename
+		? `${customFilename}.wav`
+		: `${uuidv4()}.wav`;
+	const outputPath = path.join(AUDIO_DIR, outputFilename);
+
+	console.log(
+		`Concatenating ${audioFilenames.length} audio files into ${outputFilename}...`
+	);
+	for (const filename of audioFilenames) {
+		await syncFileIn(path.join(AUDIO_DIR, filename));
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		const command = ffmpeg();
+		for (const filename of audioFilenames) {
+			command.input(path.join(AUDIO_DIR, filename));
+		}
+		const fitFilters: string[] = [];
+		const filterInputs = audioFilenames
+			.map((_, i) => {
+				const duration = durations?.[i];
+				if (!duration) return `[${i}:a]`;
+				fitFilters.push(`[${i}:a]apad,atrim=duration=${duration}[fit${i}]`);
+				return `[fit${i}]`;
+			})
+			.join("");
+		command
+			.complexFilter([
+				...fitFilters,
+				`${filterInputs}concat=n=${audioFilenames.length}:v=0:a=1[aout]`,
+			])
+			.outputOptions(["-map", "[aout]"])
+			.output(outputPath)
+			.on("end", () => resolve())
+			.on("error", (err) =>
+				reject(new RenderError(`Failed to concatenate audio: ${err.message}`))
+			)
+			.run();
 	});
+
+	await syncFileOut(outputPath);
+	console.log(`Concatenated audio written to file: ${outputPath}`);
+	return { audioFilePath: outputPath, audioFilename: outputFilename };
 };
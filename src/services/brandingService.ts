@@ -0,0 +1,107 @@
+import path from "path";
+import fs from "fs/promises";
+import { v4 as uuidv4 } from "uuid";
+import {
+	NotFoundError,
+	StorageError,
+	ValidationError,
+} from "../errors/appErrors";
+import { syncFileIn, syncFileOut } from "./storage";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+// Logo images uploaded through POST /logos, for title/end cards and the
+// watermark, in one directory per tenant; local copies, synced to storage
+const LOGO_UPLOAD_DIR = path.join(LOCAL_OUTPUT_ROOT, "logos");
+
+// Accepted upload content types and the extension they are stored under
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+	"image/png": ".png",
+	"image/jpeg": ".jpg",
+	"image/jpg": ".jpg",
+	"image/webp": ".webp",
+};
+
+export type WatermarkPosition =
+	| "top_left"
+	| "top_right"
+	| "bottom_left"
+	| "bottom_right";
+
+// An opening title or closing card, as stored with a project
+export interface CardSettings {
+	title?: string;
+	subtitle?: string; // Smaller line below the title, e.g. a call to action
+	logoUploadId?: string; // Shown above the text
+	duration: number; // Seconds
+	backgroundColor: string; // #RRGGBB
+	textColor: string; // #RRGGBB
+	fontName: string;
+}
+
+// A logo kept on screen for the whole video, as stored with a project
+export interface WatermarkSettings {
+	logoUploadId: string;
+	position: WatermarkPosition;
+	opacity: number; // 0-1
+	scale: number; // Logo width as a share of the frame width
+}
+
+export const getUploadedLogoDir = (): string => LOGO_UPLOAD_DIR;
+
+// Store a tenant's uploaded logo and return the ID used to reference it later
+export const saveUploadedLogo = async (
+	tenantId: string,
+	data: Buffer,
+	contentType: string | undefined
+): Promise<string> => {
+	const extension = contentType
+		? UPLOAD_EXTENSIONS[contentType.split(";")[0].trim().toLowerCase()]
+		: undefined;
+	if (!extension) {
+		throw new ValidationError(
+			`Unsupported logo content type. Use one of: ${Object.keys(
+				UPLOAD_EXTENSIONS
+			).join(", ")}`
+		);
+	}
+	if (!data || data.length === 0) {
+		throw new ValidationError("No logo data provided to save.");
+	}
+
+	const uploadId = `${uuidv4()}${extension}`;
+	const tenantDir = path.join(LOGO_UPLOAD_DIR, tenantId);
+	try {
+		await fs.mkdir(tenantDir, { recursive: true });
+		await fs.writeFile(path.join(tenantDir, uploadId), data);
+		await syncFileOut(path.join(tenantDir, uploadId));
+	} catch (error) {
+		console.error("Error saving uploaded logo:", error);
+		throw new StorageError("Failed to save uploaded logo.");
+	}
+	console.log(`Logo uploaded for tenant ${tenantId}: ${uploadId}`);
+	return uploadId;
+};
+
+// Resolve one of the tenant's upload IDs to an absolute path, checking the
+// file exists. Another tenant's logo is not found, like an unknown one.
+// `field` names the request option in errors.
+export const resolveLogoPath = async (
+	uploadId: string,
+	tenantId: string,
+	field: string
+): Promise<string> => {
+	if (
+		uploadId !== path.basename(uploadId) ||
+		uploadId.startsWith(".") ||
+		uploadId.length > 255
+	) {
+		throw ValidationError.forField(field, "Invalid logo upload ID.");
+	}
+	const logoPath = path.join(LOGO_UPLOAD_DIR, tenantId, uploadId);
+	try {
+		await syncFileIn(logoPath);
+	} catch {
+		throw new NotFoundError(`Logo not found: ${uploadId}`);
+	}
+	return logoPath;
+};
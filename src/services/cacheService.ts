@@ -0,0 +1,225 @@
+import path from "path";
+import fs from "fs/promises";
+import crypto from "crypto";
+import { ValidationError } from "../errors/appErrors";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+// Content-addressed cache for model and TTS output. Entries are files named
+// by a hash of everything that affects the output (input, provider, model,
+// settings), evicted least-recently-used once CACHE_MAX_BYTES is exceeded.
+const CACHE_DIR = path.join(LOCAL_OUTPUT_ROOT, "cache");
+// Size limit in bytes; 0 disables the cache
+const CACHE_MAX_BYTES = Number(
+	process.env.CACHE_MAX_BYTES ?? 500 * 1024 * 1024
+);
+
+export type CacheNamespace =
+	| "refinePrompt"
+	| "generateImage"
+	| "splitStory"
+	| "visualPrompts"
+	| "synthesizeSpeech";
+
+export type CacheStats = Record<
+	CacheNamespace,
+	{ hits: number; misses: number }
+>;
+
+// Per-request cache behaviour and counters
+export interface CacheScope {
+	bypass: boolean; // Skip lookups; fresh results still refresh the cache
+	stats: CacheStats;
+}
+
+export const createCacheScope = (bypass: boolean = false): CacheScope => ({
+	bypass,
+	stats: {
+		refinePrompt: { hits: 0, misses: 0 },
+		generateImage: { hits: 0, misses: 0 },
+		splitStory: { hits: 0, misses: 0 },
+		visualPrompts: { hits: 0, misses: 0 },
+		synthesizeSpeech: { hits: 0, misses: 0 },
+	},
+});
+
+// Validate the `cache` option of a request body
+export const parseCacheOptions = (value: unknown): CacheScope => {
+	if (value === undefined || value === null) return createCacheScope();
+	if (typeof value !== "object") {
+		throw ValidationError.forField("cache", "cache must be an object.");
+	}
+	const { bypass } = value as Record<string, unknown>;
+	if (bypass !== undefined && typeof bypass !== "boolean") {
+		throw ValidationError.forField(
+			"cache.bypass",
+			"cache.bypass must be a boolean."
+		);
+	}
+	return createCacheScope(bypass === true);
+};
+
+// JSON with sorted keys, so equal inputs always hash the same
+const stableStringify = (value: unknown): string => {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(",")}]`;
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+			.sort()
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify(
+						(value as Record<string, unknown>)[key]
+					)}`
+			)
+			.join(",")}}`;
+	}
+	return JSON.stringify(value);
+};
+
+const buildCacheKey = (namespace: CacheNamespace, input: unknown): string =>
+	crypto
+		.createHash("sha256")
+		.update(`${namespace}:${stableStringify(input)}`)
+		.digest("hex");
+
+// --- Index ---
+// Entry sizes in least- to most-recently-used order (Map insertion order).
+// Loaded from disk on first use, ordered by file modification time, which is
+// bumped on every hit.
+let index: Map<string, number> | null = null;
+let totalBytes = 0;
+let indexLoading: Promise<Map<string, number>> | null = null;
+
+const loadIndex = async (): Promise<Map<string, number>> => {
+	if (index) return index;
+	if (!indexLoading) {
+		indexLoading = (async () => {
+			await fs.mkdir(CACHE_DIR, { recursive: true });
+			const entries = await Promise.all(
+				(await fs.readdir(CACHE_DIR))
+					.filter((name) => /^[0-9a-f]{64}$/.test(name))
+					.map(async (name) => {
+						const stats = await fs.stat(path.join(CACHE_DIR, name));
+						return { name, size: stats.size, mtimeMs: stats.mtimeMs };
+					})
+			);
+			entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+			const loaded = new Map<string, number>();
+			for (const entry of entries) {
+				loaded.set(entry.name, entry.size);
+				totalBytes += entry.size;
+			}
+			index = loaded;
+			console.log(
+				`Cache index loaded: ${loaded.size} entries, ${totalBytes} bytes.`
+			);
+			return loaded;
+		})();
+		// Forget a failed load so the next call retries it
+		indexLoading.catch((error) => {
+			console.error("Failed to load cache index:", error);
+			indexLoading = null;
+		});
+	}
+	return indexLoading;
+};
+
+const evictOverLimit = async (entries: Map<string, number>): Promise<void> => {
+	for (const [key, size] of entries) {
+		if (totalBytes <= CACHE_MAX_BYTES) break;
+		entries.delete(key);
+		totalBytes -= size;
+		await fs.rm(path.join(CACHE_DIR, key), { force: true });
+		console.log(`Cache entry evicted: ${key}`);
+	}
+};
+
+const readEntry = async (key: string): Promise<Buffer | null> => {
+	const entries = await loadIndex();
+	const size = entries.get(key);
+	if (size === undefined) return null;
+	const entryPath = path.join(CACHE_DIR, key);
+	try {
+		const data = await fs.readFile(entryPath);
+		// Mark as most recently used, in memory and for the next restart
+		entries.delete(key);
+		entries.set(key, size);
+		const now = new Date();
+		await fs.utimes(entryPath, now, now);
+		return data;
+	} catch (error: any) {
+		if (error.code !== "ENOENT") throw error;
+		entries.delete(key);
+		totalBytes -= size;
+		return null;
+	}
+};
+
+const writeEntry = async (key: string, data: Buffer): Promise<void> => {
+	if (data.length > CACHE_MAX_BYTES) return;
+	const entries = await loadIndex();
+	const entryPath = path.join(CACHE_DIR, key);
+	const tempPath = `${entryPath}.${process.pid}.${Date.now()}.tmp`;
+	await fs.writeFile(tempPath, data);
+	await fs.rename(tempPath, entryPath);
+
+	const previousSize = entries.get(key);
+	if (previousSize !== undefined) {
+		entries.delete(key);
+		totalBytes -= previousSize;
+	}
+	entries.set(key, data.length);
+	totalBytes += data.length;
+	await evictOverLimit(entries);
+};
+
+// Identical misses already being computed, so concurrent callers share one call
+const inFlight = new Map<string, Promise<Buffer>>();
+
+// --- Service Function: With Cache ---
+// Returns the cached output for `input`, or runs `compute` and stores its
+// result. Cache read/write failures are logged and never fail the call.
+export const withCache = async (
+	scope: CacheScope | undefined,
+	namespace: CacheNamespace,
+	input: unknown,
+	compute: () => Promise<Buffer>
+): Promise<Buffer> => {
+	if (!(CACHE_MAX_BYTES > 0)) return compute();
+
+	const key = buildCacheKey(namespace, input);
+	if (!scope?.bypass) {
+		try {
+			const cached = await readEntry(key);
+			if (cached) {
+				if (scope) scope.stats[namespace].hits++;
+				console.log(`Cache hit (${namespace}): ${key.substring(0, 12)}`);
+				return cached;
+			}
+		} catch (error) {
+			console.error(`Cache read failed (${namespace}):`, error);
+		}
+		const pending = inFlight.get(key);
+		if (pending) {
+			if (scope) scope.stats[namespace].hits++;
+			return pending;
+		}
+	}
+
+	if (scope) scope.stats[namespace].misses++;
+	const computation = compute();
+	inFlight.set(key, computation);
+	try {
+		const data = await computation;
+		try {
+			await writeEntry(key, data);
+		} catch (error) {
+			console.error(`Cache write failed (${namespace}):`, error);
+		}
+		return data;
+	} finally {
+		if (inFlight.get(key) === computation) inFlight.delete(key);
+	}
+};
@@ -0,0 +1,176 @@
+// Splits narration text into narrator lines and quoted character speech, and
+// works out who says each quote, so multi-voice narration can read every
+// character in their own voice.
+//
+// Only double quotes ("..." and curly “...”) mark speech; single quotes are
+// too easily confused with apostrophes. A speaker is recognised from a
+// speech tag next to the quote ("...," said Mara / Mara asked, "..."). An
+// untagged quote goes to whoever spoke before the last speaker, as
+// conversations alternate. With only one speaker so far it is theirs when
+// narration came in between, and UNKNOWN_SPEAKER's when it answers them.
+
+export const UNKNOWN_SPEAKER = "Unknown";
+
+export interface DialogueLine {
+	speaker: string | null; // Null for the narrator
+	text: string;
+}
+
+// A character and the voice that reads their lines
+export interface CharacterVoice {
+	name: string;
+	voice: string;
+}
+
+const QUOTE_PATTERN = /"([^"]+)"|“([^”]+)”/g;
+
+const SPEECH_VERBS =
+	"said|says|asked|asks|replied|replies|answered|answers|whispered|whispers|shouted|shouts|called|calls|cried|cries|muttered|mutters|added|adds|exclaimed|exclaims|yelled|yells|told|tells|continued|continues|laughed|laughs|sighed|sighs|began|begins";
+
+// One or two capitalised words, e.g. "Mara" or "Captain Reyes"
+const NAME = "([A-Z][a-z]+(?: [A-Z][a-z]+)?)";
+
+// Tags after a quote: `, said Mara` or `, Mara said`
+const TAG_AFTER = [
+	new RegExp(`^[\\s,.!?—-]*(?:${SPEECH_VERBS})\\s+${NAME}`),
+	new RegExp(`^[\\s,.!?—-]*${NAME}\\s+(?:${SPEECH_VERBS})\\b`),
+];
+// Tags before a quote: `Mara said, ` or `said Mara, `, with anything up to
+// the end of the sentence in between (`Mara turned and said: `)
+const TAG_BEFORE = [
+	new RegExp(`${NAME}\\s+(?:[a-z]+\\s+){0,4}(?:${SPEECH_VERBS})\\b[^.!?]*$`),
+	new RegExp(`(?:${SPEECH_VERBS})\\s+${NAME}[^.!?]*$`),
+];
+
+// Capitalised words that start a tag but are not names
+const NON_NAMES = new Set([
+	"He",
+	"She",
+	"They",
+	"I",
+	"We",
+	"You",
+	"It",
+	"The",
+	"Then",
+	"And",
+	"But",
+	"Someone",
+	"Everyone",
+]);
+
+const findTaggedSpeaker = (
+	text: string,
+	patterns: RegExp[]
+): string | null => {
+	for (const pattern of patterns) {
+		const words = text.match(pattern)?.[1].split(" ") ?? [];
+		// "Then Mara said" is Mara
+		while (words.length > 0 && NON_NAMES.has(words[0])) words.shift();
+		if (words.length > 0) return words.join(" ");
+	}
+	return null;
+};
+
+const hasWords = (text: string): boolean => /[A-Za-z0-9]/.test(text);
+
+// --- Service Function: Parse Dialogue Lines ---
+// Returns the text's lines in reading order. Text without quotes comes back
+// as a single narrator line.
+export const parseDialogueLines = (text: string): DialogueLine[] => {
+	const normalized = text.replace(/\s+/g, " ").trim();
+	const quotes = [...normalized.matchAll(QUOTE_PATTERN)];
+	if (quotes.length === 0) return [{ speaker: null, text: normalized }];
+
+	const lines: DialogueLine[] = [];
+	const recentSpeakers: string[] = []; // Most recent last
+	let position = 0;
+	quotes.forEach((quote, i) => {
+		const start = quote.index ?? 0;
+		const end = start + quote[0].length;
+		const before = normalized.slice(position, start);
+		const nextStart = quotes[i + 1]?.index ?? normalized.length;
+		const after = normalized.slice(end, nextStart);
+
+		if (hasWords(before)) lines.push({ speaker: null, text: before.trim() });
+
+		let speaker =
+			findTaggedSpeaker(after, TAG_AFTER) ??
+			findTaggedSpeaker(before, TAG_BEFORE);
+		if (!speaker) {
+			const last = recentSpeakers[recentSpeakers.length - 1];
+			const previous = recentSpeakers[recentSpeakers.length - 2];
+			if (previous) {
+				speaker = previous; // Conversations alternate
+			} else if (last && hasWords(before)) {
+				speaker = last; // The same character goes on after narration
+			} else {
+				speaker = UNKNOWN_SPEAKER; // Someone answers the last speaker
+			}
+		}
+		if (recentSpeakers[recentSpeakers.length - 1] !== speaker) {
+			recentSpeakers.push(speaker);
+		}
+
+		const spoken = (quote[1] ?? quote[2]).trim();
+		if (hasWords(spoken)) lines.push({ speaker, text: spoken });
+		position = end;
+	});
+	const rest = normalized.slice(position);
+	if (hasWords(rest)) lines.push({ speaker: null, text: rest.trim() });
+	return lines;
+};
+
+// --- Service Function: Find Speakers ---
+// Every character who speaks in the texts, in order of first line
+export const findSpeakers = (texts: string[]): string[] => {
+	const speakers: string[] = [];
+	for (const text of texts) {
+		for (const line of parseDialogueLines(text)) {
+			if (line.speaker && !speakers.includes(line.speaker)) {
+				speakers.push(line.speaker);
+			}
+		}
+	}
+	return speakers;
+};
+
+// --- Service Function: Assign Character Voices ---
+// Keeps the configured voices (matched by name, ignoring case) and gives
+// every other speaker the next unused voice from `voicePool`. Speakers left
+// without a voice, once the pool runs out, are read by the narrator voice.
+export const assignCharacterVoices = (
+	speakers: string[],
+	configured: CharacterVoice[] = [],
+	voicePool: string[] = [],
+	narratorVoice?: string
+): CharacterVoice[] => {
+	const assigned = [...configured];
+	const used = new Set(
+		[narratorVoice, ...configured.map((entry) => entry.voice)].filter(Boolean)
+	);
+	const available = voicePool.filter((voice) => !used.has(voice));
+	for (const speaker of speakers) {
+		const known = assigned.some(
+			(entry) => entry.name.toLowerCase() === speaker.toLowerCase()
+		);
+		if (known) continue;
+		const voice = available.shift();
+		if (!voice) {
+			console.warn(
+				`No voice left for ${speaker}; their lines use the narrator voice.`
+			);
+			continue;
+		}
+		assigned.push({ name: speaker, voice });
+	}
+	return assigned;
+};
+
+export const getCharacterVoice = (
+	characterVoices: CharacterVoice[],
+	speaker: string
+): string | undefined =>
+	characterVoices.find(
+		(entry) => entry.name.toLowerCase() === speaker.toLowerCase()
+	)?.voice;
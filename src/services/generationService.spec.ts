@@ -0,0 +1,73 @@
+import {
+	parseGenerationOptions,
+	planScenesForTarget,
+} from "./generationService";
+import { ValidationError } from "../errors/appErrors";
+
+// 20 sentences of 6 words: about 48s of narration at speaking rate 1, with
+// TARGET_SECONDS_PER_SCENE at its default of 5
+const STORY = Array.from(
+	{ length: 20 },
+	(_, i) => `The fox ran past tree ${i + 1}.`
+).join(" ");
+
+describe("planScenesForTarget", () => {
+	it("plans one scene per five seconds of the target", () => {
+		const short = planScenesForTarget(STORY, 40);
+		const long = planScenesForTarget(STORY, 60);
+
+		expect(short.sceneTexts).toHaveLength(8);
+		expect(long.sceneTexts).toHaveLength(12);
+		// Both plans cover the whole story
+		expect(short.sceneTexts.join(" ")).toBe(STORY);
+		expect(long.sceneTexts.join(" ")).toBe(STORY);
+	});
+
+	it("speeds up narration that would overrun the target", () => {
+		const plan = planScenesForTarget(STORY, 40);
+
+		expect(plan.speakingRate).toBeCloseTo(1.2);
+		expect(plan.estimatedNarrationSeconds).toBe(40);
+	});
+
+	it("leaves the pace alone when the narration fits, for padding later", () => {
+		const plan = planScenesForTarget(STORY, 60);
+
+		expect(plan.speakingRate).toBeUndefined();
+		expect(plan.estimatedNarrationSeconds).toBeCloseTo(48);
+	});
+
+	it("rejects targets the story cannot be fitted to", () => {
+		// Would need narration at 1.6x
+		expect(() => planScenesForTarget(STORY, 30)).toThrow(ValidationError);
+		// Would be more than half silence
+		expect(() => planScenesForTarget(STORY, 100)).toThrow(ValidationError);
+	});
+});
+
+describe("parseGenerationOptions", () => {
+	const { NODE_ENV, ALLOW_FAKE_PROVIDER } = process.env;
+
+	afterEach(() => {
+		process.env.NODE_ENV = NODE_ENV;
+		process.env.ALLOW_FAKE_PROVIDER = ALLOW_FAKE_PROVIDER;
+		if (ALLOW_FAKE_PROVIDER === undefined) {
+			delete process.env.ALLOW_FAKE_PROVIDER;
+		}
+	});
+
+	it("accepts the fake provider in tests", () => {
+		expect(parseGenerationOptions({ provider: "fake" }).provider).toBe("fake");
+	});
+
+	it("rejects the fake provider elsewhere unless the server opts in", () => {
+		process.env.NODE_ENV = "production";
+		delete process.env.ALLOW_FAKE_PROVIDER;
+		expect(() => parseGenerationOptions({ provider: "fake" })).toThrow(
+			ValidationError
+		);
+
+		process.env.ALLOW_FAKE_PROVIDER = "true";
+		expect(parseGenerationOptions({ provider: "fake" }).provider).toBe("fake");
+	});
+});
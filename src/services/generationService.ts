@@ -1,141 +1,421 @@
 import {
-	GoogleGenerativeAI,
-	GenerateContentCandidate,
-	Part,
-	GenerateContentResponse,
-} from "@google/generative-ai";
-import { getRefinementPrompt } from "../prompts/imagePrompts";
+	getModelProvider,
+	isModelProviderName,
+	MODEL_PROVIDER_NAMES,
+	ModelCallOptions,
+	ModelProvider,
+	ModelProviderName,
+} from "./models";
+import { ImageStyle, StoryBible, StoryBibleEntry } from "../types/story";
+import { withImageStyle, withStoryBible } from "../prompts/imagePrompts";
+import {
+	DEFAULT_REFINEMENT_TEMPLATE,
+	findStylePreset,
+	getTemplatePlaceholders,
+	STYLE_PRESETS,
+	TEMPLATE_PLACEHOLDERS,
+} from "../prompts/stylePresets";
+import { getModelRateLimiter, withRetry } from "./throttleService";
+import { CacheScope, withCache } from "./cacheService";
+import { estimateNarrationSeconds } from "./tts";
+import {
+	AppError,
+	ConfigurationError,
+	ContentBlockedError,
+	UpstreamModelError,
+	UpstreamRateLimitError,
+	ValidationError,
+} from "../errors/appErrors";
+
+// Upper bounds that keep a client-supplied bible from bloating every prompt
+const MAX_BIBLE_ENTRIES = 20;
+const MAX_BIBLE_TEXT_LENGTH = 1000;
+
+// Times to ask for visual prompts when the model returns too few
+const VISUAL_PROMPT_ATTEMPTS = 3;
+
+// Scene count limit when the client asks for a reel length
+const MAX_GENERATED_SCENES = 50;
+// Seconds each image should stay on screen when fitting a target duration;
+// override with TARGET_SECONDS_PER_SCENE
+const TARGET_SECONDS_PER_SCENE = Math.max(
+	1,
+	Number(process.env.TARGET_SECONDS_PER_SCENE) || 5
+);
+// Narration that overruns a target duration is sped up by at most this
+// factor over the requested speaking rate
+const MAX_FITTED_SPEEDUP = 1.5;
+const MAX_SPEAKING_RATE = 4;
+// Narration shorter than the target is padded with silence, but must fill
+// at least this share of it
+const MIN_NARRATION_SHARE = 0.5;
+
+// Provider and model selection for a generation call. Anything left out
+// falls back to the environment (MODEL_PROVIDER etc.) and provider defaults.
+export interface GenerationOptions {
+	provider?: ModelProviderName;
+	textModel?: string;
+	imageModel?: string;
+}
 
-// --- Service Function: Refine Prompt ---
-export async function refinePromptForImage(
-	initialPrompt: string,
-	apiKey: string
-): Promise<string> {
-	if (!apiKey) throw new Error("API key is required for refining prompt.");
-
-	const genAI = new GoogleGenerativeAI(apiKey);
-	const textModelIdentifier = "gemini-1.5-flash";
-	const textModel = genAI.getGenerativeModel({ model: textModelIdentifier });
-	const refinementMetaPrompt = getRefinementPrompt(initialPrompt);
-
-	console.log(`Sending prompt to ${textModelIdentifier} for refinement...`);
-	const textResult = await textModel.generateContent(refinementMetaPrompt);
-	const textResponse: GenerateContentResponse = textResult.response;
-
-	let refinedPrompt = "";
-	if (textResponse?.candidates?.[0]?.content?.parts) {
-		for (const part of textResponse.candidates[0].content.parts) {
-			if (part.text) {
-				refinedPrompt += part.text;
-			}
+const resolveProvider = (
+	options: GenerationOptions
+): { provider: ModelProvider; callOptions: ModelCallOptions } => {
+	const provider = getModelProvider(options.provider);
+	if (!provider.isConfigured()) {
+		throw new ConfigurationError(
+			`Server configuration error: model provider "${provider.name}" is not configured`
+		);
+	}
+	return {
+		provider,
+		callOptions: {
+			textModel: options.textModel || provider.defaultTextModel,
+			imageModel: options.imageModel || provider.defaultImageModel,
+		},
+	};
+};
+
+// Map an SDK or network error that survived all retries to an AppError
+const toUpstreamError = (
+	provider: ModelProvider,
+	label: string,
+	error: unknown
+): AppError => {
+	if (error instanceof AppError) return error;
+	const err = error as { status?: unknown; message?: unknown };
+	const message = typeof err?.message === "string" ? err.message : String(error);
+	if (err?.status === 429) {
+		return new UpstreamRateLimitError(
+			`Model provider "${provider.name}" is rate limiting requests (${label}); try again later.`
+		);
+	}
+	if (/\b(SAFETY|blocked)\b/i.test(message)) {
+		return new ContentBlockedError(
+			`The model refused the request on safety grounds (${label}).`
+		);
+	}
+	return new UpstreamModelError(
+		`Model provider "${provider.name}" failed (${label}): ${message}`
+	);
+};
+
+// Every provider call waits for the provider's process-wide rate limiter and
+// is retried on transient errors (429, 5xx, dropped connections). Failures
+// reach the caller as UpstreamModelError or one of its subclasses.
+const callProvider = async <T>(
+	provider: ModelProvider,
+	label: string,
+	call: () => Promise<T>
+): Promise<T> => {
+	try {
+		return await withRetry(
+			async () => {
+				await getModelRateLimiter(provider.name).acquire();
+				return call();
+			},
+			{ label: `${provider.name} ${label}` }
+		);
+	} catch (error) {
+		throw toUpstreamError(provider, label, error);
+	}
+};
+
+// The fake provider returns canned text and images, so a request may only
+// pick it in tests or on a server that opts in with ALLOW_FAKE_PROVIDER=true
+const isFakeProviderAllowed = (): boolean =>
+	process.env.NODE_ENV === "test" ||
+	process.env.ALLOW_FAKE_PROVIDER === "true";
+
+// Validate the `models` option from a request body and check the chosen
+// provider is usable, so misconfiguration fails the request up front.
+export const parseGenerationOptions = (models: unknown): GenerationOptions => {
+	if (models === undefined || models === null) {
+		resolveProvider({});
+		return {};
+	}
+	if (typeof models !== "object") {
+		throw ValidationError.forField("models", "models must be an object.");
+	}
+	const { provider, textModel, imageModel } = models as Record<
+		string,
+		unknown
+	>;
+	if (provider !== undefined && !isModelProviderName(provider)) {
+		throw ValidationError.forField(
+			"models.provider",
+			`models.provider must be one of ${MODEL_PROVIDER_NAMES.join(", ")}.`
+		);
+	}
+	if (provider === "fake" && !isFakeProviderAllowed()) {
+		throw ValidationError.forField(
+			"models.provider",
+			'models.provider "fake" is not enabled on this server.'
+		);
+	}
+	if (textModel !== undefined && typeof textModel !== "string") {
+		throw ValidationError.forField(
+			"models.textModel",
+			"models.textModel must be a string."
+		);
+	}
+	if (imageModel !== undefined && typeof imageModel !== "string") {
+		throw ValidationError.forField(
+			"models.imageModel",
+			"models.imageModel must be a string."
+		);
+	}
+	const options: GenerationOptions = { provider, textModel, imageModel };
+	resolveProvider(options);
+	return options;
+};
+
+// Validate a story bible, either returned by a model or edited and sent back
+// by a client. `source` names it in error messages.
+export const parseStoryBible = (
+	value: unknown,
+	source: string = "storyBible"
+): StoryBible => {
+	if (!value || typeof value !== "object") {
+		throw ValidationError.forField(source, `${source} must be an object.`);
+	}
+	const raw = value as Record<string, unknown>;
+
+	const parseText = (field: string, text: unknown): string => {
+		if (typeof text !== "string" || !text.trim()) {
+			throw ValidationError.forField(
+				`${source}.${field}`,
+				`${source}.${field} must be a non-empty string.`
+			);
+		}
+		if (text.length > MAX_BIBLE_TEXT_LENGTH) {
+			throw ValidationError.forField(
+				`${source}.${field}`,
+				`${source}.${field} must be at most ${MAX_BIBLE_TEXT_LENGTH} characters.`
+			);
+		}
+		return text.trim();
+	};
+
+	const parseEntries = (field: string, entries: unknown): StoryBibleEntry[] => {
+		if (entries === undefined) return [];
+		if (!Array.isArray(entries)) {
+			throw ValidationError.forField(
+				`${source}.${field}`,
+				`${source}.${field} must be an array.`
+			);
 		}
+		if (entries.length > MAX_BIBLE_ENTRIES) {
+			throw ValidationError.forField(
+				`${source}.${field}`,
+				`${source}.${field} must have at most ${MAX_BIBLE_ENTRIES} entries.`
+			);
+		}
+		return entries.map((entry, i) => {
+			const item = (entry || {}) as Record<string, unknown>;
+			return {
+				name: parseText(`${field}[${i}].name`, item.name),
+				visualDescription: parseText(
+					`${field}[${i}].visualDescription`,
+					item.visualDescription
+				),
+			};
+		});
+	};
+
+	return {
+		characters: parseEntries("characters", raw.characters),
+		locations: parseEntries("locations", raw.locations),
+		era: parseText("era", raw.era),
+		artStyle: parseText("artStyle", raw.artStyle),
+	};
+};
+
+// Resolve the `style` option of a request body against the preset library.
+// The preset is pinned to the version used, so a saved project keeps its
+// wording when a newer version is added.
+export const parseImageStyle = (value: unknown): ImageStyle | undefined => {
+	if (value === undefined || value === null) return undefined;
+	if (typeof value !== "object") {
+		throw ValidationError.forField("style", "style must be an object.");
+	}
+	const { preset, template } = value as Record<string, unknown>;
+	if (preset === undefined && template === undefined) return undefined;
+
+	let resolved: ImageStyle = {
+		preset: null,
+		template: DEFAULT_REFINEMENT_TEMPLATE,
+		style: null,
+		avoid: [],
+	};
+	if (preset !== undefined) {
+		const found = typeof preset === "string" ? findStylePreset(preset) : null;
+		const knownPreset =
+			typeof preset === "string"
+				? STYLE_PRESETS.find((candidate) => candidate.id === preset.split("@")[0])
+				: undefined;
+		if (!found && knownPreset) {
+			throw ValidationError.forField(
+				"style.preset",
+				`style.preset "${knownPreset.id}" has versions ${knownPreset.versions
+					.map((version) => version.version)
+					.join(", ")}.`
+			);
+		}
+		if (!found) {
+			throw ValidationError.forField(
+				"style.preset",
+				`style.preset must be one of ${STYLE_PRESETS.map(
+					(candidate) => candidate.id
+				).join(", ")}, optionally with a version such as "anime@1".`
+			);
+		}
+		resolved = {
+			preset: `${found.preset.id}@${found.version.version}`,
+			template: found.version.template ?? DEFAULT_REFINEMENT_TEMPLATE,
+			style: found.version.style,
+			avoid: found.version.avoid,
+		};
 	}
-	refinedPrompt = refinedPrompt.trim();
 
-	if (!refinedPrompt) {
-		console.error("Text model did not return a refined prompt.", textResponse);
-		throw new Error("Failed to refine prompt for image generation.");
+	if (template !== undefined) {
+		if (typeof template !== "string" || !template.trim()) {
+			throw ValidationError.forField(
+				"style.template",
+				"style.template must be a non-empty string."
+			);
+		}
+		const placeholders = getTemplatePlaceholders(template);
+		const unknownNames = placeholders.filter(
+			(name) => !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)
+		);
+		if (unknownNames.length > 0) {
+			throw ValidationError.forField(
+				"style.template",
+				`Unknown placeholder {{${unknownNames[0]}}}; style.template may use ${TEMPLATE_PLACEHOLDERS.map(
+					(name) => `{{${name}}}`
+				).join(", ")}.`
+			);
+		}
+		if (!placeholders.includes("prompt")) {
+			throw ValidationError.forField(
+				"style.template",
+				"style.template must include the {{prompt}} placeholder."
+			);
+		}
+		resolved.template = template;
 	}
-	console.log(`Refined Prompt: \"${refinedPrompt}\"`);
-	return refinedPrompt;
+	return resolved;
+};
+
+// --- Service Function: Refine Prompt ---
+// With a story bible, the refined prompt is kept consistent with it. With a
+// style, its template and wording are used.
+export async function refinePromptForImage(
+	initialPrompt: string,
+	options: GenerationOptions = {},
+	storyBible?: StoryBible,
+	cache?: CacheScope,
+	style?: ImageStyle
+): Promise<string> {
+	const { provider, callOptions } = resolveProvider(options);
+	const cacheInput = {
+		provider: provider.name,
+		model: callOptions.textModel,
+		initialPrompt,
+		storyBible,
+		style,
+	};
+	const refinedPrompt = await withCache(
+		cache,
+		"refinePrompt",
+		cacheInput,
+		async () =>
+			Buffer.from(
+				await callProvider(provider, "refinePrompt", () =>
+					provider.refinePrompt(initialPrompt, callOptions, storyBible, style)
+				)
+			)
+	);
+	return refinedPrompt.toString("utf8");
 }
 
 // --- Service Function: Generate Image ---
+// Returns base64-encoded image data.
 export async function generateImage(
 	refinedPrompt: string,
-	apiKey: string
+	options: GenerationOptions = {},
+	storyBible?: StoryBible,
+	cache?: CacheScope,
+	style?: ImageStyle
 ): Promise<string> {
-	if (!apiKey) throw new Error("API key is required for generating image.");
-
-	const genAI = new GoogleGenerativeAI(apiKey);
-	const imageModelIdentifier = "gemini-2.0-flash-exp-image-generation";
-	const imageModel = genAI.getGenerativeModel({ model: imageModelIdentifier });
-
-	console.log(
-		`Sending refined prompt to ${imageModelIdentifier} via generateContent: \"${refinedPrompt}\"...`
+	const { provider, callOptions } = resolveProvider(options);
+	const prompt = withImageStyle(
+		withStoryBible(refinedPrompt, storyBible),
+		style
 	);
-
-	const imageGenResult = await imageModel.generateContent({
-		contents: [{ role: "user", parts: [{ text: refinedPrompt }] }],
-		generationConfig: {
-			responseModalities: ["Text", "Image"],
-		} as any,
-	});
-
-	const imageGenResponse = imageGenResult.response;
-	console.log(
-		"Received response from image generation model (Gemini 2.0 Flash Exp)"
+	const image = await withCache(
+		cache,
+		"generateImage",
+		{ provider: provider.name, model: callOptions.imageModel, prompt },
+		async () =>
+			Buffer.from(
+				await callProvider(provider, "generateImage", () =>
+					provider.generateImage(prompt, callOptions)
+				),
+				"base64"
+			)
 	);
+	return image.toString("base64");
+}
 
-	let foundImage = false;
-	let imageBase64Data: string | null = null;
-
-	if (imageGenResponse?.candidates?.[0]?.content?.parts) {
-		const candidate: GenerateContentCandidate = imageGenResponse.candidates[0];
-		const parts: Part[] = candidate.content.parts;
-		for (const part of parts) {
-			if (part.inlineData?.mimeType?.startsWith("image/")) {
-				imageBase64Data = part.inlineData.data;
-				foundImage = true;
-				console.log(
-					`Found image data (mime type: ${part.inlineData.mimeType})`
-				);
-				break;
-			}
-		}
-	}
-
-	if (foundImage && imageBase64Data) {
-		return imageBase64Data;
-	} else {
-		console.error(
-			"Model response (Gemini 2.0 Flash Exp) did not contain expected image data. Response:",
-			JSON.stringify(imageGenResponse, null, 2)
-		);
-		throw new Error(
-			"Failed to generate image: No valid image data found in API response (using Gemini 2.0 Flash Exp)."
+// --- Service Function: Extract Story Bible ---
+// Pulls characters, locations, era and one art style out of the story.
+export async function extractStoryBible(
+	story: string,
+	options: GenerationOptions = {}
+): Promise<StoryBible> {
+	const { provider, callOptions } = resolveProvider(options);
+	const rawBible = await callProvider(provider, "extractStoryBible", () =>
+		provider.extractStoryBible(story, callOptions)
+	);
+	let storyBible: StoryBible;
+	try {
+		storyBible = parseStoryBible(rawBible, "Extracted story bible");
+	} catch (error) {
+		// The model's output is at fault here, not the request
+		throw new UpstreamModelError(
+			error instanceof Error ? error.message : String(error)
 		);
 	}
+	console.log(
+		`Extracted story bible: ${storyBible.characters.length} characters, ${storyBible.locations.length} locations, style "${storyBible.artStyle}".`
+	);
+	return storyBible;
 }
 
 // --- Service Function: Split Story into Scenes ---
 // Uses a text model to identify logical scene breaks in a story.
 export async function splitStoryIntoScenes(
 	story: string,
-	apiKey: string
+	options: GenerationOptions = {},
+	cache?: CacheScope
 ): Promise<string[]> {
-	if (!apiKey) throw new Error("API key is required for splitting story.");
-
-	const genAI = new GoogleGenerativeAI(apiKey);
-	const textModelIdentifier = "gemini-1.5-flash"; // Or another capable text model
-	const textModel = genAI.getGenerativeModel({ model: textModelIdentifier });
-
-	// Prompt asking the model to split the story into visual scenes
-	const splittingPrompt = `Analyze the following story and split it into distinct visual scenes. Each scene should represent a moment or location that can be visualized as a single image. Output *only* the scenes, separated by a unique delimiter like "<SCENE_BREAK>". Do not add any commentary before or after the scenes.
-
-Story:
----
-${story}
----
-
-Scenes (separated by "<SCENE_BREAK>"):
-`;
-
-	console.log(`Sending story to ${textModelIdentifier} for scene splitting...`);
-	const result = await textModel.generateContent(splittingPrompt);
-	const response = result.response;
-	const combinedScenesText = response.text();
-
-	if (!combinedScenesText) {
-		console.error("Model did not return text for scene splitting.", response);
-		throw new Error("Failed to split story into scenes.");
-	}
-
-	// Split the result by the delimiter
-	const scenes = combinedScenesText
-		.split("<SCENE_BREAK>")
-		.map((scene) => scene.trim())
-		.filter((scene) => scene.length > 0);
+	const { provider, callOptions } = resolveProvider(options);
+	const cachedScenes = await withCache(
+		cache,
+		"splitStory",
+		{ provider: provider.name, model: callOptions.textModel, story },
+		async () =>
+			Buffer.from(
+				JSON.stringify(
+					await callProvider(provider, "splitStory", () =>
+						provider.splitStory(story, callOptions)
+					)
+				)
+			)
+	);
+	const scenes: string[] = JSON.parse(cachedScenes.toString("utf8"));
 
 	if (scenes.length === 0) {
 		console.warn(
@@ -148,75 +428,174 @@ Scenes (separated by "<SCENE_BREAK>"):
 	return scenes;
 }
 
-// --- Service Function: Generate N Visual Prompts from Story ---
-// Asks a text model to break a story into a specific number of visual prompts.
+// --- Service Function: Generate Visual Prompts from Story ---
+// Asks a text model for one visual prompt per scene text (see
+// splitTextIntoScenes), with the whole story as context. Extra prompts are
+// dropped; too few means asking again, up to VISUAL_PROMPT_ATTEMPTS times,
+// before giving up with UpstreamModelError. Only an exact result is cached.
 export async function generateVisualPromptsFromStory(
 	story: string,
-	numberOfPrompts: number,
-	apiKey: string
+	sceneTexts: string[],
+	options: GenerationOptions = {},
+	cache?: CacheScope
 ): Promise<string[]> {
-	if (!apiKey)
-		throw new Error("API key is required for generating visual prompts.");
-	if (numberOfPrompts <= 0)
-		throw new Error("Number of prompts must be greater than zero.");
-
-	const genAI = new GoogleGenerativeAI(apiKey);
-	const textModelIdentifier = "gemini-1.5-flash"; // Or another capable text model
-	const textModel = genAI.getGenerativeModel({
-		model: textModelIdentifier,
-	});
-
-	// Prompt asking the model to generate N distinct visual prompts
-	const generationPrompt = `Analyze the following story and generate exactly ${numberOfPrompts} distinct visual scene descriptions suitable for an image generation model. Each description should capture a key moment or visual element progression through the story. Output *only* the descriptions, separated by the delimiter "<PROMPT_BREAK>". Do not add any commentary, numbering, or introduction before or after the descriptions.
-
-Story:
----
-${story}
----
+	if (sceneTexts.length === 0) {
+		throw new ValidationError("At least one scene is needed for prompts.");
+	}
+	const numberOfPrompts = sceneTexts.length;
+
+	const { provider, callOptions } = resolveProvider(options);
+	const cachedPrompts = await withCache(
+		cache,
+		"visualPrompts",
+		{
+			provider: provider.name,
+			model: callOptions.textModel,
+			story,
+			sceneTexts,
+		},
+		async () => {
+			let received = 0;
+			for (let attempt = 1; attempt <= VISUAL_PROMPT_ATTEMPTS; attempt++) {
+				const prompts = (
+					await callProvider(provider, "generateVisualPrompts", () =>
+						provider.generateVisualPrompts(story, sceneTexts, callOptions)
+					)
+				).filter((prompt) => prompt.trim().length > 0);
+				received = prompts.length;
+
+				if (prompts.length >= numberOfPrompts) {
+					if (prompts.length > numberOfPrompts) {
+						console.warn(
+							`Requested ${numberOfPrompts} prompts, but received ${prompts.length}. Dropping the extra prompts.`
+						);
+					}
+					return Buffer.from(
+						JSON.stringify(prompts.slice(0, numberOfPrompts))
+					);
+				}
+				console.warn(
+					`Requested ${numberOfPrompts} prompts, but received ${prompts.length} (attempt ${attempt} of ${VISUAL_PROMPT_ATTEMPTS}).`
+				);
+			}
+			throw new UpstreamModelError(
+				`Prompt generation returned ${received} of ${numberOfPrompts} prompts after ${VISUAL_PROMPT_ATTEMPTS} attempts.`
+			);
+		}
+	);
+	const prompts: string[] = JSON.parse(cachedPrompts.toString("utf8"));
 
-${numberOfPrompts} Visual Scene Descriptions (separated by "<PROMPT_BREAK>"):
-`;
+	console.log(`Generated ${prompts.length} visual prompts.`);
+	return prompts;
+}
 
-	console.log(
-		`Sending story to ${textModelIdentifier} to generate ${numberOfPrompts} prompts...`
+// --- Service Function: Get Scene Count For Duration ---
+// How many images fit a reel of the given length, one every
+// TARGET_SECONDS_PER_SCENE seconds
+export const getSceneCountForDuration = (seconds: number): number =>
+	Math.min(
+		MAX_GENERATED_SCENES,
+		Math.max(1, Math.round(seconds / TARGET_SECONDS_PER_SCENE))
 	);
-	const result = await textModel.generateContent(generationPrompt);
-	const response = result.response;
-	let combinedPromptsText = "";
-	if (response?.candidates?.[0]?.content?.parts) {
-		for (const part of response.candidates[0].content.parts) {
-			if (part.text) {
-				combinedPromptsText += part.text;
-			}
-		}
+
+// --- Service Function: Split Text Into Scenes ---
+// Splits a story into exactly `sceneCount` narration chunks of similar
+// length. Cuts fall between sentences, or between words when the story has
+// fewer sentences than scenes. Throws when it has fewer words than scenes.
+export const splitTextIntoScenes = (
+	text: string,
+	sceneCount: number,
+	field: string = "sceneCount"
+): string[] => {
+	const normalized = text.replace(/\s+/g, " ").trim();
+	const sentences = normalized
+		.split(/(?<=[.!?]["')\]]*)\s+/)
+		.filter((sentence) => sentence.length > 0);
+	const units =
+		sentences.length >= sceneCount
+			? sentences
+			: normalized.split(" ").filter((word) => word.length > 0);
+	if (units.length < sceneCount) {
+		throw ValidationError.forField(
+			field,
+			`The story is too short to split into ${sceneCount} scenes.`
+		);
 	}
 
-	if (!combinedPromptsText) {
-		console.error("Model did not return text for prompt generation.", response);
-		throw new Error("Failed to generate visual prompts from story.");
+	const totalLength = units.reduce((sum, unit) => sum + unit.length + 1, 0);
+	const scenes: string[] = [];
+	let start = 0;
+	let length = 0;
+	for (let i = 1; i < sceneCount; i++) {
+		// Grow the scene while that brings the running length closer to an
+		// even share, leaving at least one unit for each remaining scene
+		const target = (totalLength * i) / sceneCount;
+		const lastEnd = units.length - (sceneCount - i);
+		let end = start + 1;
+		length += units[start].length + 1;
+		while (
+			end < lastEnd &&
+			Math.abs(length + units[end].length + 1 - target) <
+				Math.abs(length - target)
+		) {
+			length += units[end].length + 1;
+			end++;
+		}
+		scenes.push(units.slice(start, end).join(" "));
+		start = end;
 	}
+	scenes.push(units.slice(start).join(" "));
+	return scenes;
+};
 
-	// Split the result by the delimiter
-	const prompts = combinedPromptsText
-		.split("<PROMPT_BREAK>")
-		.map((p) => p.trim())
-		.filter((p) => p.length > 0);
+// A story split to fill a target reel length
+export interface ScenePlan {
+	sceneTexts: string[];
+	speakingRate?: number; // Set when the narration is sped up to fit
+	estimatedNarrationSeconds: number; // Scenes are padded up to the target
+}
 
-	// Validate if we got roughly the number requested (can sometimes be imperfect)
-	if (prompts.length === 0) {
-		console.error(
-			"Prompt generation resulted in zero prompts.",
-			combinedPromptsText
+// --- Service Function: Plan Scenes For Target ---
+// Derives the scene count from the target length and splits the story into
+// that many chunks. Narration estimated to overrun the target is sped up;
+// the pipeline pads shorter narration with silence. Throws when neither
+// gets the story close enough to the target.
+export const planScenesForTarget = (
+	story: string,
+	targetDurationSeconds: number,
+	speakingRate: number = 1
+): ScenePlan => {
+	const field = "targetDurationSeconds";
+	let fittedRate: number | undefined = undefined;
+	let narrationSeconds = estimateNarrationSeconds(story, speakingRate);
+	if (narrationSeconds > targetDurationSeconds) {
+		fittedRate = (speakingRate * narrationSeconds) / targetDurationSeconds;
+		const maxRate = Math.min(
+			MAX_SPEAKING_RATE,
+			speakingRate * MAX_FITTED_SPEEDUP
 		);
-		throw new Error("Prompt generation failed.");
-	}
-	if (prompts.length !== numberOfPrompts) {
-		console.warn(
-			`Requested ${numberOfPrompts} prompts, but received ${prompts.length}. Proceeding with received prompts.`
+		if (fittedRate > maxRate) {
+			throw ValidationError.forField(
+				field,
+				`The story takes about ${Math.round(
+					narrationSeconds
+				)}s to narrate, too long for a ${targetDurationSeconds}s reel; shorten the story or raise ${field}.`
+			);
+		}
+		narrationSeconds = targetDurationSeconds;
+	} else if (narrationSeconds < targetDurationSeconds * MIN_NARRATION_SHARE) {
+		throw ValidationError.forField(
+			field,
+			`The story takes about ${Math.round(
+				narrationSeconds
+			)}s to narrate, too short for a ${targetDurationSeconds}s reel; lengthen the story or lower ${field}.`
 		);
-		// Optional: Could try to truncate/pad, but using what we got is simpler
 	}
 
-	console.log(`Generated ${prompts.length} visual prompts.`);
-	return prompts;
-}
+	const sceneCount = getSceneCountForDuration(targetDurationSeconds);
+	return {
+		sceneTexts: splitTextIntoScenes(story, sceneCount, field),
+		speakingRate: fittedRate,
+		estimatedNarrationSeconds: narrationSeconds,
+	};
+};
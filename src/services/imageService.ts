@@ -1,8 +1,11 @@
 import fs from "fs/promises"; // Use fs/promises import
 import path from "path";
 import { v4 as uuidv4 } from "uuid";
+import { StorageError } from "../errors/appErrors";
+import { getArtifactDir } from "./artifactService";
+import { syncFileOut } from "./storage";
 
-const OUTPUT_DIR: string = path.join(__dirname, "../../outputs"); // Store in project root/outputs
+const OUTPUT_DIR: string = getArtifactDir("images"); // Local copies; synced to storage
 
 // Ensure output directory exists
 const ensureOutputDir = async (): Promise<void> => {
@@ -19,11 +22,13 @@ const ensureOutputDir = async (): Promise<void> => {
 					`Failed to create output directory: ${OUTPUT_DIR}`,
 					mkdirError
 				);
-				throw new Error(`Failed to create output directory: ${OUTPUT_DIR}`);
+				throw new StorageError(
+					`Failed to create output directory: ${OUTPUT_DIR}`
+				);
 			}
 		} else {
 			console.error("Error accessing output directory:", error);
-			throw new Error("Error accessing output directory."); // Re-throw other errors
+			throw new StorageError("Error accessing output directory."); // Re-throw other errors
 		}
 	}
 };
@@ -34,9 +39,28 @@ interface SaveResult {
 	filename: string;
 }
 
+// Identify an uploaded image by its leading bytes; returns the file
+// extension to store it under, or null for unsupported formats
+export const detectImageExtension = (data: Buffer): string | null => {
+	if (data.subarray(0, 8).equals(Buffer.from("89504e470d0a1a0a", "hex"))) {
+		return "png";
+	}
+	if (data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff) {
+		return "jpg";
+	}
+	if (
+		data.subarray(0, 4).toString("ascii") === "RIFF" &&
+		data.subarray(8, 12).toString("ascii") === "WEBP"
+	) {
+		return "webp";
+	}
+	return null;
+};
+
 export const saveImageToFile = async (
 	imageBase64Data: string,
-	baseFilename?: string // Add optional base filename
+	baseFilename?: string, // Add optional base filename
+	extension: string = "png"
 ): Promise<SaveResult> => {
 	// Ensure the directory exists, awaiting the promise
 	await ensureOutputDir();
@@ -49,8 +73,8 @@ export const saveImageToFile = async (
 		const imageBuffer: Buffer = Buffer.from(imageBase64Data, "base64");
 		// Use baseFilename if provided, otherwise use UUID
 		const filename: string = baseFilename
-			? `${baseFilename}.png`
-			: `${uuidv4()}.png`;
+			? `${baseFilename}.${extension}`
+			: `${uuidv4()}.${extension}`;
 		const filePath: string = path.join(OUTPUT_DIR, filename);
 
 		// Check if file already exists (optional, prevents overwrite)
@@ -60,6 +84,7 @@ export const saveImageToFile = async (
 		// } catch {}
 
 		await fs.writeFile(filePath, imageBuffer);
+		await syncFileOut(filePath);
 		console.log(`Image saved successfully to: ${filePath}`);
 		return { filePath, filename }; // Return path and name
 	} catch (error) {
@@ -67,6 +92,6 @@ export const saveImageToFile = async (
 			"Error saving image to file:",
 			error instanceof Error ? error.message : String(error)
 		);
-		throw new Error("Failed to save generated image.");
+		throw new StorageError("Failed to save generated image.");
 	}
 };
@@ -0,0 +1,217 @@
+import { EventEmitter } from "events";
+import { v4 as uuidv4 } from "uuid";
+import {
+	SceneProcessingResult,
+	StoryBible,
+	VideoCompilationResult,
+} from "../types/story";
+import { WriteSubtitlesResult } from "./subtitleService";
+import { CacheStats } from "./cacheService";
+import { CharacterVoice } from "./dialogueService";
+import { ErrorCode } from "../errors/appErrors";
+
+// How long finished jobs are kept in memory before being pruned
+const FINISHED_JOB_TTL_MS = 60 * 60 * 1000; // 1 hour
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+export type JobStage =
+	| "queued"
+	| "audio"
+	| "splitting"
+	| "story_bible"
+	| "scenes"
+	| "compiling"
+	| "completed"
+	| "failed";
+
+// Partial results are filled in as the pipeline progresses
+export interface StoryJobResult {
+	projectId: string | null; // Saved project, for re-renders (see POST /projects/:id/render)
+	storyBible: StoryBible | null; // Visual reference used for every scene
+	storyBibleError?: string;
+	visualPromptsError?: string; // Scene prompts were refined one by one instead
+	durationWarning?: string; // Narration overran targetDurationSeconds
+	characterVoices?: CharacterVoice[]; // Voice per speaking character (multi-voice narration)
+	sceneImageResults: SceneProcessingResult[];
+	fullAudioFilename: string | null;
+	subtitles: WriteSubtitlesResult | null; // SRT/WebVTT timed to the video
+	videoResult: VideoCompilationResult | null;
+	videoError?: string;
+	cacheStats: CacheStats | null; // Cache hits and misses for this job's model and TTS calls
+}
+
+// Typed progress events pushed to live subscribers (see GET /jobs/:id/events)
+export type StoryJobEvent =
+	| { type: "stage"; stage: JobStage; stageDetail: string }
+	| { type: "audio_ready"; fullAudioFilename: string; durationSeconds: number }
+	| { type: "audio_failed"; error: string }
+	| { type: "scenes_split"; totalScenes: number; scenes: string[] }
+	| { type: "story_bible_ready"; storyBible: StoryBible }
+	| { type: "prompt_refined"; sceneIndex: number; refinedPrompt: string }
+	| { type: "image_saved"; scene: SceneProcessingResult }
+	| { type: "image_failed"; scene: SceneProcessingResult }
+	| { type: "render_progress"; percent: number }
+	| { type: "video_ready"; videoResult: VideoCompilationResult }
+	| { type: "video_failed"; error: string }
+	| { type: "job_completed"; result: StoryJobResult }
+	| { type: "job_failed"; error: string; errorCode: ErrorCode };
+
+export interface StoryJob {
+	id: string;
+	tenantId: string; // Tenant whose quotas the job's usage counts against
+	status: JobStatus;
+	stage: JobStage;
+	stageDetail: string; // Human readable, e.g. "3 of 7 scenes done"
+	scenesDone?: number; // Scenes run in parallel, so only the count is kept
+	totalScenes?: number;
+	result: StoryJobResult;
+	error?: string; // Fatal error that stopped the job
+	errorCode?: ErrorCode; // Machine-readable code for `error`
+	createdAt: string;
+	updatedAt: string;
+}
+
+// In-process job store. Jobs live independently of the HTTP request that
+// created them, so a client disconnect does not affect a running job.
+const jobs = new Map<string, StoryJob>();
+
+// Per-job event history (replayed to late subscribers) and live emitters
+const jobEventHistory = new Map<string, StoryJobEvent[]>();
+const jobEmitters = new Map<string, EventEmitter>();
+
+// Drop finished jobs that are older than the TTL
+const pruneFinishedJobs = (): void => {
+	const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+	for (const [id, job] of jobs) {
+		const finished = job.status === "completed" || job.status === "failed";
+		if (finished && Date.parse(job.updatedAt) < cutoff) {
+			jobs.delete(id);
+			jobEventHistory.delete(id);
+			jobEmitters.get(id)?.removeAllListeners();
+			jobEmitters.delete(id);
+		}
+	}
+};
+
+export const createJob = (tenantId: string): StoryJob => {
+	pruneFinishedJobs();
+
+	const now = new Date().toISOString();
+	const job: StoryJob = {
+		id: uuidv4(),
+		tenantId,
+		status: "queued",
+		stage: "queued",
+		stageDetail: "queued",
+		result: {
+			projectId: null,
+			storyBible: null,
+			sceneImageResults: [],
+			fullAudioFilename: null,
+			subtitles: null,
+			videoResult: null,
+			cacheStats: null,
+		},
+		createdAt: now,
+		updatedAt: now,
+	};
+	jobs.set(job.id, job);
+	jobEventHistory.set(job.id, []);
+	jobEmitters.set(job.id, new EventEmitter());
+	console.log(`Job ${job.id} created.`);
+	return job;
+};
+
+export const getJob = (jobId: string): StoryJob | undefined => {
+	return jobs.get(jobId);
+};
+
+// Record an event and push it to any live subscribers
+export const emitJobEvent = (jobId: string, event: StoryJobEvent): void => {
+	const history = jobEventHistory.get(jobId);
+	if (!history) return;
+	history.push(event);
+	jobEmitters.get(jobId)?.emit("event", event);
+};
+
+// Replays past events to the listener, then forwards new ones.
+// Returns an unsubscribe function, or null if the job does not exist.
+export const subscribeToJob = (
+	jobId: string,
+	listener: (event: StoryJobEvent) => void
+): (() => void) | null => {
+	const history = jobEventHistory.get(jobId);
+	const emitter = jobEmitters.get(jobId);
+	if (!history || !emitter) return null;
+
+	for (const event of history) {
+		listener(event);
+	}
+	emitter.on("event", listener);
+	return () => {
+		emitter.off("event", listener);
+	};
+};
+
+// Move a job to a new pipeline stage
+export const setJobStage = (
+	jobId: string,
+	stage: JobStage,
+	stageDetail: string = stage
+): void => {
+	const job = jobs.get(jobId);
+	if (!job) return;
+	job.stage = stage;
+	job.stageDetail = stageDetail;
+	if (job.status === "queued") job.status = "running";
+	job.updatedAt = new Date().toISOString();
+	console.log(`Job ${jobId} stage: ${stageDetail}`);
+	emitJobEvent(jobId, { type: "stage", stage, stageDetail });
+};
+
+// Record how many scenes the pipeline has finished
+export const setJobSceneProgress = (
+	jobId: string,
+	scenesDone: number,
+	totalScenes: number
+): void => {
+	const job = jobs.get(jobId);
+	if (!job) return;
+	job.scenesDone = scenesDone;
+	job.totalScenes = totalScenes;
+	setJobStage(jobId, "scenes", `${scenesDone} of ${totalScenes} scenes done`);
+};
+
+// Merge partial results into the job
+export const updateJobResult = (
+	jobId: string,
+	partial: Partial<StoryJobResult>
+): void => {
+	const job = jobs.get(jobId);
+	if (!job) return;
+	job.result = { ...job.result, ...partial };
+	job.updatedAt = new Date().toISOString();
+};
+
+export const completeJob = (jobId: string): void => {
+	const job = jobs.get(jobId);
+	if (!job) return;
+	job.status = "completed";
+	setJobStage(jobId, "completed");
+	emitJobEvent(jobId, { type: "job_completed", result: job.result });
+};
+
+export const failJob = (
+	jobId: string,
+	error: string,
+	errorCode: ErrorCode = "INTERNAL_ERROR"
+): void => {
+	const job = jobs.get(jobId);
+	if (!job) return;
+	job.status = "failed";
+	job.error = error;
+	job.errorCode = errorCode;
+	setJobStage(jobId, "failed");
+	emitJobEvent(jobId, { type: "job_failed", error, errorCode });
+};
@@ -0,0 +1,183 @@
+import crypto from "crypto";
+import zlib from "zlib";
+import { ModelProvider, ModelCallOptions } from "./modelProvider";
+import { ImageStyle, StoryBible } from "../../types/story";
+
+const PLACEHOLDER_WIDTH = 540;
+const PLACEHOLDER_HEIGHT = 960;
+const SENTENCES_PER_SCENE = 2;
+const COMMON_OPENERS = new Set([
+	"A",
+	"An",
+	"The",
+	"Then",
+	"It",
+	"He",
+	"She",
+	"They",
+	"We",
+	"I",
+	"But",
+	"And",
+	"When",
+	"One",
+	"Once",
+	"There",
+	"This",
+	"That",
+]);
+
+const splitSentences = (text: string): string[] =>
+	text
+		.replace(/\s+/g, " ")
+		.split(/(?<=[.!?])\s+/)
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+
+// Spread items over `count` groups as evenly as possible, keeping order
+const groupInto = (items: string[], count: number): string[] => {
+	const groups: string[] = [];
+	for (let i = 0; i < count; i++) {
+		const start = Math.floor((i * items.length) / count);
+		const end = Math.floor(((i + 1) * items.length) / count);
+		groups.push(items.slice(start, end).join(" "));
+	}
+	return groups.filter((group) => group.length > 0);
+};
+
+// --- Minimal PNG encoder for placeholder images ---
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+const crc32 = (buffer: Buffer): number => {
+	let crc = 0xffffffff;
+	for (const byte of buffer) {
+		crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length);
+	const typeAndData = Buffer.concat([Buffer.from(type, "ascii"), data]);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(typeAndData));
+	return Buffer.concat([length, typeAndData, crc]);
+};
+
+// A vertical gradient whose colours are derived from the prompt, so each
+// scene gets a distinct but reproducible image.
+export const buildPlaceholderPng = (seed: string): Buffer => {
+	const hash = crypto.createHash("sha256").update(seed).digest();
+	const top = [hash[0], hash[1], hash[2]];
+	const bottom = [hash[3], hash[4], hash[5]];
+
+	const rowLength = 1 + PLACEHOLDER_WIDTH * 3; // Filter byte + RGB pixels
+	const raw = Buffer.alloc(rowLength * PLACEHOLDER_HEIGHT);
+	for (let y = 0; y < PLACEHOLDER_HEIGHT; y++) {
+		const t = y / (PLACEHOLDER_HEIGHT - 1);
+		const rowStart = y * rowLength;
+		raw[rowStart] = 0; // No filter
+		for (let x = 0; x < PLACEHOLDER_WIDTH; x++) {
+			for (let c = 0; c < 3; c++) {
+				raw[rowStart + 1 + x * 3 + c] = Math.round(
+					top[c] + (bottom[c] - top[c]) * t
+				);
+			}
+		}
+	}
+
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(PLACEHOLDER_WIDTH, 0);
+	header.writeUInt32BE(PLACEHOLDER_HEIGHT, 4);
+	header[8] = 8; // Bit depth
+	header[9] = 2; // Colour type: RGB
+	header[10] = 0; // Compression
+	header[11] = 0; // Filter
+	header[12] = 0; // Interlace
+
+	return Buffer.concat([
+		Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+		pngChunk("IHDR", header),
+		pngChunk("IDAT", zlib.deflateSync(raw)),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+};
+
+// Offline provider for tests and CI. Scenes and prompts are derived from the
+// story text itself and images are generated placeholder PNGs, so the whole
+// pipeline can run without network access.
+export const fakeModelProvider: ModelProvider = {
+	name: "fake",
+	defaultTextModel: "fake-text",
+	defaultImageModel: "fake-image",
+
+	isConfigured: () => true,
+
+	refinePrompt: async (
+		initialPrompt: string,
+		_options: ModelCallOptions,
+		storyBible?: StoryBible,
+		style?: ImageStyle
+	) => {
+		const artStyle = style?.style ?? storyBible?.artStyle;
+		const styleText = artStyle ? `, in ${artStyle} style` : "";
+		return `A detailed illustration of: ${initialPrompt.trim()}${styleText}`;
+	},
+
+	splitStory: async (story: string, _options: ModelCallOptions) => {
+		const paragraphs = story
+			.split(/\n\s*\n/)
+			.map((paragraph) => paragraph.trim())
+			.filter((paragraph) => paragraph.length > 0);
+		if (paragraphs.length > 1) return paragraphs;
+
+		const sentences = splitSentences(story);
+		return groupInto(
+			sentences,
+			Math.ceil(sentences.length / SENTENCES_PER_SCENE)
+		);
+	},
+
+	// Treats capitalised words (other than common sentence openers) as names
+	extractStoryBible: async (story: string, _options: ModelCallOptions) => {
+		const names = new Set<string>();
+		for (const word of story.split(/\s+/)) {
+			const name = word.replace(/[^A-Za-z]/g, "");
+			if (/^[A-Z][a-z]+$/.test(name) && !COMMON_OPENERS.has(name)) {
+				names.add(name);
+			}
+		}
+		const storyBible: StoryBible = {
+			characters: [...names].map((name) => ({
+				name,
+				visualDescription: `${name}, as described in the story`,
+			})),
+			locations: [],
+			era: "unspecified",
+			artStyle: "soft storybook illustration",
+		};
+		return storyBible;
+	},
+
+	generateVisualPrompts: async (
+		_story: string,
+		sceneTexts: string[],
+		_options: ModelCallOptions
+	) => {
+		return sceneTexts.map((text) => `A scene showing: ${text}`);
+	},
+
+	generateImage: async (prompt: string, options: ModelCallOptions) => {
+		return buildPlaceholderPng(`${options.imageModel}:${prompt}`).toString(
+			"base64"
+		);
+	},
+};
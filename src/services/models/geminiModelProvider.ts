@@ -0,0 +1,237 @@
+import {
+	GoogleGenerativeAI,
+	GenerateContentCandidate,
+	Part,
+	GenerateContentResponse,
+} from "@google/generative-ai";
+import { getRefinementPrompt } from "../../prompts/imagePrompts";
+import {
+	getSceneSplittingPrompt,
+	getVisualPromptsPrompt,
+	getStoryBiblePrompt,
+	SCENE_DELIMITER,
+	PROMPT_DELIMITER,
+} from "../../prompts/storyPrompts";
+import { ModelProvider, ModelCallOptions } from "./modelProvider";
+import { ImageStyle, StoryBible } from "../../types/story";
+import {
+	ConfigurationError,
+	ContentBlockedError,
+	UpstreamModelError,
+} from "../../errors/appErrors";
+
+// Finish reasons meaning the output was withheld on policy grounds
+const BLOCKED_FINISH_REASONS = new Set([
+	"SAFETY",
+	"PROHIBITED_CONTENT",
+	"BLOCKLIST",
+	"SPII",
+	"IMAGE_SAFETY",
+]);
+
+const getClient = (): GoogleGenerativeAI => {
+	const apiKey = process.env.GOOGLE_API_KEY;
+	if (!apiKey) {
+		throw new ConfigurationError("Server configuration error: API key missing");
+	}
+	return new GoogleGenerativeAI(apiKey);
+};
+
+// Throw ContentBlockedError if Gemini refused the prompt or withheld the output
+const assertNotBlocked = (response: GenerateContentResponse): void => {
+	const blockReason = response?.promptFeedback?.blockReason;
+	if (blockReason) {
+		throw new ContentBlockedError(
+			`The prompt was blocked by the model's safety filters (${blockReason}).`
+		);
+	}
+	const finishReason = response?.candidates?.[0]?.finishReason as
+		| string
+		| undefined;
+	if (finishReason && BLOCKED_FINISH_REASONS.has(finishReason)) {
+		throw new ContentBlockedError(
+			`The model withheld its output on safety grounds (${finishReason}).`
+		);
+	}
+};
+
+// Concatenate the text parts of the first candidate
+const extractText = (response: GenerateContentResponse): string => {
+	let text = "";
+	if (response?.candidates?.[0]?.content?.parts) {
+		for (const part of response.candidates[0].content.parts) {
+			if (part.text) {
+				text += part.text;
+			}
+		}
+	}
+	return text;
+};
+
+// Google Gemini. Model IDs default to GEMINI_TEXT_MODEL / GEMINI_IMAGE_MODEL.
+export const geminiModelProvider: ModelProvider = {
+	name: "gemini",
+	defaultTextModel: process.env.GEMINI_TEXT_MODEL || "gemini-1.5-flash",
+	defaultImageModel:
+		process.env.GEMINI_IMAGE_MODEL || "gemini-2.0-flash-exp-image-generation",
+
+	isConfigured: () => Boolean(process.env.GOOGLE_API_KEY),
+
+	refinePrompt: async (
+		initialPrompt: string,
+		options: ModelCallOptions,
+		storyBible?: StoryBible,
+		style?: ImageStyle
+	) => {
+		const textModel = getClient().getGenerativeModel({
+			model: options.textModel,
+		});
+		const refinementMetaPrompt = getRefinementPrompt(
+			initialPrompt,
+			storyBible,
+			style
+		);
+
+		console.log(`Sending prompt to ${options.textModel} for refinement...`);
+		const textResult = await textModel.generateContent(refinementMetaPrompt);
+		const textResponse: GenerateContentResponse = textResult.response;
+		assertNotBlocked(textResponse);
+
+		const refinedPrompt = extractText(textResponse).trim();
+		if (!refinedPrompt) {
+			console.error("Text model did not return a refined prompt.", textResponse);
+			throw new UpstreamModelError(
+				"Failed to refine prompt for image generation."
+			);
+		}
+		console.log(`Refined Prompt: \"${refinedPrompt}\"`);
+		return refinedPrompt;
+	},
+
+	generateImage: async (refinedPrompt: string, options: ModelCallOptions) => {
+		const imageModel = getClient().getGenerativeModel({
+			model: options.imageModel,
+		});
+
+		console.log(
+			`Sending refined prompt to ${options.imageModel} via generateContent: \"${refinedPrompt}\"...`
+		);
+
+		const imageGenResult = await imageModel.generateContent({
+			contents: [{ role: "user", parts: [{ text: refinedPrompt }] }],
+			generationConfig: {
+				responseModalities: ["Text", "Image"],
+			} as any,
+		});
+
+		const imageGenResponse = imageGenResult.response;
+		console.log(
+			`Received response from image generation model (${options.imageModel})`
+		);
+		assertNotBlocked(imageGenResponse);
+
+		let imageBase64Data: string | null = null;
+		if (imageGenResponse?.candidates?.[0]?.content?.parts) {
+			const candidate: GenerateContentCandidate =
+				imageGenResponse.candidates[0];
+			const parts: Part[] = candidate.content.parts;
+			for (const part of parts) {
+				if (part.inlineData?.mimeType?.startsWith("image/")) {
+					imageBase64Data = part.inlineData.data;
+					console.log(
+						`Found image data (mime type: ${part.inlineData.mimeType})`
+					);
+					break;
+				}
+			}
+		}
+
+		if (imageBase64Data) {
+			return imageBase64Data;
+		}
+		console.error(
+			`Model response (${options.imageModel}) did not contain expected image data. Response:`,
+			JSON.stringify(imageGenResponse, null, 2)
+		);
+		throw new UpstreamModelError(
+			`Failed to generate image: No valid image data found in API response (using ${options.imageModel}).`
+		);
+	},
+
+	splitStory: async (story: string, options: ModelCallOptions) => {
+		const textModel = getClient().getGenerativeModel({
+			model: options.textModel,
+		});
+
+		console.log(`Sending story to ${options.textModel} for scene splitting...`);
+		const result = await textModel.generateContent(
+			getSceneSplittingPrompt(story)
+		);
+		const response = result.response;
+		assertNotBlocked(response);
+		const combinedScenesText = response.text();
+
+		if (!combinedScenesText) {
+			console.error("Model did not return text for scene splitting.", response);
+			throw new UpstreamModelError("Failed to split story into scenes.");
+		}
+
+		return combinedScenesText
+			.split(SCENE_DELIMITER)
+			.map((scene) => scene.trim())
+			.filter((scene) => scene.length > 0);
+	},
+
+	extractStoryBible: async (story: string, options: ModelCallOptions) => {
+		const textModel = getClient().getGenerativeModel({
+			model: options.textModel,
+			generationConfig: { responseMimeType: "application/json" },
+		});
+
+		console.log(`Sending story to ${options.textModel} for story bible...`);
+		const result = await textModel.generateContent(getStoryBiblePrompt(story));
+		assertNotBlocked(result.response);
+		const responseText = extractText(result.response).trim();
+
+		try {
+			return JSON.parse(responseText);
+		} catch (error) {
+			console.error("Model returned invalid story bible JSON:", responseText);
+			throw new UpstreamModelError(
+				"Failed to extract story bible: invalid JSON response."
+			);
+		}
+	},
+
+	generateVisualPrompts: async (
+		story: string,
+		sceneTexts: string[],
+		options: ModelCallOptions
+	) => {
+		const textModel = getClient().getGenerativeModel({
+			model: options.textModel,
+		});
+
+		console.log(
+			`Sending story to ${options.textModel} to generate ${sceneTexts.length} prompts...`
+		);
+		const result = await textModel.generateContent(
+			getVisualPromptsPrompt(story, sceneTexts)
+		);
+		const response = result.response;
+		assertNotBlocked(response);
+		const combinedPromptsText = extractText(response);
+
+		if (!combinedPromptsText) {
+			console.error("Model did not return text for prompt generation.", response);
+			throw new UpstreamModelError(
+				"Failed to generate visual prompts from story."
+			);
+		}
+
+		return combinedPromptsText
+			.split(PROMPT_DELIMITER)
+			.map((p) => p.trim())
+			.filter((p) => p.length > 0);
+	},
+};
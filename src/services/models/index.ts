@@ -0,0 +1,27 @@
+import { ModelProvider, ModelProviderName } from "./modelProvider";
+import { geminiModelProvider } from "./geminiModelProvider";
+import { fakeModelProvider } from "./fakeModelProvider";
+
+export * from "./modelProvider";
+
+const providers: Record<ModelProviderName, ModelProvider> = {
+	gemini: geminiModelProvider,
+	fake: fakeModelProvider,
+};
+
+export const MODEL_PROVIDER_NAMES = Object.keys(
+	providers
+) as ModelProviderName[];
+
+export const isModelProviderName = (
+	value: unknown
+): value is ModelProviderName =>
+	typeof value === "string" && value in providers;
+
+// Resolve a provider by name, falling back to MODEL_PROVIDER and then "gemini"
+export const getModelProvider = (name?: ModelProviderName): ModelProvider => {
+	const configured = process.env.MODEL_PROVIDER;
+	const resolvedName =
+		name || (isModelProviderName(configured) ? configured : "gemini");
+	return providers[resolvedName];
+};
@@ -0,0 +1,36 @@
+// Common interface implemented by every text/image model backend
+import { ImageStyle, StoryBible } from "../../types/story";
+
+export type ModelProviderName = "gemini" | "fake";
+
+// Model IDs and credentials for a single call, already resolved from the
+// request, environment and provider defaults
+export interface ModelCallOptions {
+	textModel: string;
+	imageModel: string;
+}
+
+export interface ModelProvider {
+	name: ModelProviderName;
+	defaultTextModel: string;
+	defaultImageModel: string;
+	// False when required configuration (e.g. an API key) is missing
+	isConfigured(): boolean;
+	refinePrompt(
+		initialPrompt: string,
+		options: ModelCallOptions,
+		storyBible?: StoryBible,
+		style?: ImageStyle
+	): Promise<string>;
+	splitStory(story: string, options: ModelCallOptions): Promise<string[]>;
+	// Returns the model's raw answer; callers validate and normalise it
+	extractStoryBible(story: string, options: ModelCallOptions): Promise<unknown>;
+	// One prompt per scene text, in order; the story is context
+	generateVisualPrompts(
+		story: string,
+		sceneTexts: string[],
+		options: ModelCallOptions
+	): Promise<string[]>;
+	// Returns base64-encoded image data
+	generateImage(prompt: string, options: ModelCallOptions): Promise<string>;
+}
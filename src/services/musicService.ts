@@ -0,0 +1,148 @@
+import path from "path";
+import fs from "fs/promises";
+import { v4 as uuidv4 } from "uuid";
+import {
+	NotFoundError,
+	StorageError,
+	ValidationError,
+} from "../errors/appErrors";
+import { syncFileIn, syncFileOut } from "./storage";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+// Curated tracks shipped with the deployment; override with MUSIC_LIBRARY_DIR
+const MUSIC_LIBRARY_DIR =
+	process.env.MUSIC_LIBRARY_DIR || path.join(__dirname, "../../music");
+// Tracks uploaded through POST /music, in one directory per tenant; local
+// copies, synced to storage
+const MUSIC_UPLOAD_DIR = path.join(LOCAL_OUTPUT_ROOT, "music");
+
+// Accepted upload content types and the extension they are stored under
+const UPLOAD_EXTENSIONS: Record<string, string> = {
+	"audio/mpeg": ".mp3",
+	"audio/mp3": ".mp3",
+	"audio/wav": ".wav",
+	"audio/x-wav": ".wav",
+	"audio/wave": ".wav",
+	"audio/ogg": ".ogg",
+	"audio/aac": ".aac",
+	"audio/mp4": ".m4a",
+	"audio/x-m4a": ".m4a",
+	"audio/flac": ".flac",
+};
+const LIBRARY_EXTENSIONS = new Set(Object.values(UPLOAD_EXTENSIONS));
+
+// A track reference from a request: a library filename or an upload ID
+export interface MusicTrackSelection {
+	libraryTrack?: string;
+	uploadId?: string;
+}
+
+// A track selection with its mix settings, as stored with a project
+export interface MusicSettings extends MusicTrackSelection {
+	volume: number; // Music gain, 0-1
+	narrationVolume: number; // Narration gain, 0-2
+	fadeInSeconds: number;
+	fadeOutSeconds: number;
+	duck: boolean; // Lower the music while the narration is speaking
+}
+
+export const getUploadedTrackDir = (): string => MUSIC_UPLOAD_DIR;
+
+// Only plain filenames are allowed; anything with a path component could
+// escape the music directories
+const isPlainFilename = (filename: string): boolean =>
+	filename === path.basename(filename) &&
+	!filename.startsWith(".") &&
+	filename.length <= 255;
+
+export const listLibraryTracks = async (): Promise<string[]> => {
+	try {
+		const entries = await fs.readdir(MUSIC_LIBRARY_DIR);
+		return entries
+			.filter((entry) =>
+				LIBRARY_EXTENSIONS.has(path.extname(entry).toLowerCase())
+			)
+			.sort();
+	} catch (error: any) {
+		if (error.code === "ENOENT") {
+			console.warn(`Music library directory not found: ${MUSIC_LIBRARY_DIR}`);
+			return [];
+		}
+		throw error;
+	}
+};
+
+// Store a tenant's uploaded track and return the ID used to reference it later
+export const saveUploadedTrack = async (
+	tenantId: string,
+	data: Buffer,
+	contentType: string | undefined
+): Promise<string> => {
+	const extension = contentType
+		? UPLOAD_EXTENSIONS[contentType.split(";")[0].trim().toLowerCase()]
+		: undefined;
+	if (!extension) {
+		throw new ValidationError(
+			`Unsupported music content type. Use one of: ${Object.keys(
+				UPLOAD_EXTENSIONS
+			).join(", ")}`
+		);
+	}
+	if (!data || data.length === 0) {
+		throw new ValidationError("No music data provided to save.");
+	}
+
+	const uploadId = `${uuidv4()}${extension}`;
+	const tenantDir = path.join(MUSIC_UPLOAD_DIR, tenantId);
+	try {
+		await fs.mkdir(tenantDir, { recursive: true });
+		await fs.writeFile(path.join(tenantDir, uploadId), data);
+		await syncFileOut(path.join(tenantDir, uploadId));
+	} catch (error) {
+		console.error("Error saving uploaded music track:", error);
+		throw new StorageError("Failed to save uploaded music track.");
+	}
+	console.log(`Music track uploaded for tenant ${tenantId}: ${uploadId}`);
+	return uploadId;
+};
+
+// Resolve a selection to an absolute path, checking the file exists. Uploads
+// must be the tenant's own; another tenant's is not found, like an unknown one.
+export const resolveMusicTrackPath = async (
+	selection: MusicTrackSelection,
+	tenantId: string
+): Promise<string> => {
+	const { libraryTrack, uploadId } = selection;
+	if (Boolean(libraryTrack) === Boolean(uploadId)) {
+		throw ValidationError.forField(
+			"music",
+			"Specify exactly one of music.libraryTrack or music.uploadId."
+		);
+	}
+
+	const filename = (libraryTrack || uploadId) as string;
+	const field = libraryTrack ? "music.libraryTrack" : "music.uploadId";
+	if (!isPlainFilename(filename)) {
+		throw ValidationError.forField(field, "Invalid music track name.");
+	}
+	if (libraryTrack) {
+		const trackPath = path.join(MUSIC_LIBRARY_DIR, filename);
+		try {
+			await fs.access(trackPath);
+		} catch {
+			throw ValidationError.forField(
+				field,
+				`Music track not found: ${filename}`
+			);
+		}
+		return trackPath;
+	}
+
+	const trackPath = path.join(MUSIC_UPLOAD_DIR, tenantId, filename);
+	try {
+		await syncFileIn(trackPath);
+	} catch {
+		throw new NotFoundError(`Music track not found: ${filename}`);
+	}
+	return trackPath;
+};
@@ -0,0 +1,172 @@
+import path from "path";
+import fs from "fs/promises";
+import { AppError, NotFoundError, StorageError } from "../errors/appErrors";
+import {
+	deleteStoredFile,
+	listStoredFiles,
+	readStoredFile,
+	syncFileOut,
+} from "./storage";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+import { GenerationOptions } from "./generationService";
+import { WriteSubtitlesResult } from "./subtitleService";
+import { StoryboardRevision } from "./storyboardService";
+import {
+	ImageStyle,
+	SceneProcessingResult,
+	StoryBible,
+	VideoCompilationResult,
+} from "../types/story";
+import {
+	NarrationRequestOptions,
+	RenderRequestBody,
+} from "../types/express.d";
+
+// Manifests are written here and synced to storage. Reads always go to
+// storage, so every server sees a project as soon as it is saved.
+const PROJECT_DIR = path.join(LOCAL_OUTPUT_ROOT, "projects");
+
+// Project IDs are job IDs (UUIDs); anything else could escape PROJECT_DIR
+const PROJECT_ID_PATTERN = /^[0-9a-f-]{36}$/i;
+
+// One render of a project and the options it was made with
+export interface ProjectRender extends VideoCompilationResult {
+	renderedAt: string;
+	storyboardVersion: number;
+	renderRequest: RenderRequestBody;
+}
+
+// Everything a story run produced, saved so the video can be rendered again
+// without repeating any model or TTS calls
+export interface ProjectManifest {
+	projectId: string;
+	tenantId: string; // Only this tenant can see or change the project
+	createdAt: string;
+	updatedAt: string;
+	story: string;
+	models: GenerationOptions;
+	narration?: NarrationRequestOptions;
+	style?: ImageStyle; // Resolved with its preset version pinned
+	storyBible: StoryBible | null;
+	scenes: SceneProcessingResult[]; // Refined prompts, images and narration
+	storyboardVersion: number; // Bumped by every storyboard edit
+	storyboardHistory: StoryboardRevision[];
+	fullAudioFilename: string | null; // Null when the storyboard needs re-narrating
+	subtitles: WriteSubtitlesResult | null; // SRT/WebVTT of the latest render
+	renderRequest: RenderRequestBody; // Render options of the latest render
+	renders: ProjectRender[]; // Oldest first
+	pinned?: boolean; // Kept, with all its files, by the retention sweeper
+}
+
+export const isProjectId = (value: string): boolean =>
+	PROJECT_ID_PATTERN.test(value);
+
+const getManifestPath = (projectId: string): string => {
+	if (!isProjectId(projectId)) {
+		throw new Error(`Invalid project ID: ${projectId}`);
+	}
+	return path.join(PROJECT_DIR, `${projectId}.json`);
+};
+
+// --- Service Function: Save Project Manifest ---
+export const saveProjectManifest = async (
+	manifest: ProjectManifest
+): Promise<void> => {
+	const manifestPath = getManifestPath(manifest.projectId);
+	await fs.mkdir(PROJECT_DIR, { recursive: true });
+
+	manifest.updatedAt = new Date().toISOString();
+	// Write then rename so a crash never leaves a half-written manifest
+	const tempPath = `${manifestPath}.tmp`;
+	await fs.writeFile(tempPath, JSON.stringify(manifest, null, 2));
+	await fs.rename(tempPath, manifestPath);
+	await syncFileOut(manifestPath);
+	console.log(`Project manifest saved: ${manifest.projectId}`);
+};
+
+// --- Service Function: Get Project Manifest ---
+// Returns null when no project with this ID exists.
+export const getProjectManifest = async (
+	projectId: string
+): Promise<ProjectManifest | null> => {
+	if (!isProjectId(projectId)) return null;
+	try {
+		const data = await readStoredFile(getManifestPath(projectId));
+		return data ? (JSON.parse(data.toString("utf8")) as ProjectManifest) : null;
+	} catch (error) {
+		console.error(`Error reading project manifest ${projectId}:`, error);
+		if (error instanceof AppError) throw error;
+		throw new StorageError("Failed to read project manifest.");
+	}
+};
+
+// --- Service Function: Get Tenant Project Manifest ---
+// Like getProjectManifest, but returns null for another tenant's project so
+// callers cannot tell it exists.
+export const getTenantProjectManifest = async (
+	projectId: string,
+	tenantId: string
+): Promise<ProjectManifest | null> => {
+	const manifest = await getProjectManifest(projectId);
+	return manifest && manifest.tenantId === tenantId ? manifest : null;
+};
+
+// --- Service Function: List Project Manifests ---
+// Every saved project; unreadable manifests are logged and skipped.
+export const listProjectManifests = async (): Promise<ProjectManifest[]> => {
+	const entries = await listStoredFiles(PROJECT_DIR);
+	const manifests: ProjectManifest[] = [];
+	for (const entry of entries) {
+		const projectId = path.basename(entry, ".json");
+		if (!entry.endsWith(".json") || !isProjectId(projectId)) continue;
+		try {
+			const manifest = await getProjectManifest(projectId);
+			if (manifest) manifests.push(manifest);
+		} catch (error) {
+			console.warn(`Skipping unreadable project manifest ${projectId}.`);
+		}
+	}
+	return manifests;
+};
+
+// --- Service Function: Delete Project Manifest ---
+// Removes the manifest only, locally and from storage; the project's files
+// are left to the retention sweeper.
+export const deleteProjectManifest = async (
+	projectId: string
+): Promise<void> => {
+	await deleteStoredFile(getManifestPath(projectId));
+	console.log(`Project manifest deleted: ${projectId}`);
+};
+
+// Pending updates per project, so concurrent read-modify-write cycles on the
+// same manifest run one after another. The queue is per server: with several
+// replicas, updates to one project that land on different servers at the
+// same moment can still overwrite each other.
+const manifestLocks = new Map<string, Promise<unknown>>();
+
+// --- Service Function: Update Project Manifest ---
+// Applies `update` to the latest saved manifest and saves the result.
+export const updateProjectManifest = async (
+	projectId: string,
+	update: (manifest: ProjectManifest) => void | Promise<void>
+): Promise<ProjectManifest> => {
+	const previous = manifestLocks.get(projectId) ?? Promise.resolve();
+	const next = previous
+		.catch(() => undefined)
+		.then(async () => {
+			const manifest = await getProjectManifest(projectId);
+			if (!manifest) {
+				throw new NotFoundError(`Project not found: ${projectId}`);
+			}
+			await update(manifest);
+			await saveProjectManifest(manifest);
+			return manifest;
+		});
+	manifestLocks.set(projectId, next);
+	try {
+		return await next;
+	} finally {
+		if (manifestLocks.get(projectId) === next) manifestLocks.delete(projectId);
+	}
+};
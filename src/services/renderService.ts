@@ -0,0 +1,189 @@
+import {
+	compileVideoWithFullAudio,
+	CardSegmentOptions,
+	TextOverlayOptions,
+	TransitionOptions,
+} from "./videoService";
+import {
+	buildSubtitleCues,
+	writeBurnInScript,
+	writeSubtitleFiles,
+	CaptionStyle,
+	SubtitleCue,
+	WriteSubtitlesResult,
+} from "./subtitleService";
+import { resolveMusicTrackPath, MusicSettings } from "./musicService";
+import {
+	CardSettings,
+	WatermarkSettings,
+	resolveLogoPath,
+} from "./brandingService";
+import { getSceneDuration } from "./sceneService";
+import { getRunArtifactName, RunWorkspace } from "./workspaceService";
+import { stripSsml } from "./tts";
+import { RenderSettings } from "../config/outputFormats";
+import { MotionOption } from "../config/motionOptions";
+import {
+	SceneProcessingResult,
+	VideoCompilationResult,
+} from "../types/story";
+
+// Everything that shapes the final video but not the generated assets, so a
+// project can be re-rendered with different options without regenerating
+export interface RenderOptions {
+	tenantId: string; // Owner of the music and logo uploads used
+	render: RenderSettings; // Output format, resolution, fps and codec
+	motion?: MotionOption;
+	sceneMotions?: (MotionOption | null)[];
+	transition?: TransitionOptions;
+	captionStyle?: CaptionStyle; // Burn captions into the video when set
+	music?: MusicSettings; // Music bed mixed under the narration
+	titleCard?: CardSettings; // Opening card; the narration starts after it
+	endCard?: CardSettings; // Closing card after the last scene
+	sceneOverlays?: (TextOverlayOptions | null)[]; // Per-scene text, in scene order
+	watermark?: WatermarkSettings; // Logo over the whole video
+}
+
+interface RenderVideoParams {
+	scenes: SceneProcessingResult[];
+	fullAudioFilename: string;
+	options: RenderOptions;
+	outputVideoFilename: string;
+	workspace: RunWorkspace; // Scratch space for segments and caption scripts
+	onProgress?: (percent: number) => void;
+}
+
+export interface RenderVideoResult extends VideoCompilationResult {
+	subtitles: WriteSubtitlesResult | null; // SRT/WebVTT; null if writing them failed
+}
+
+// Write the SRT/WebVTT files that go with a video. Subtitles are an extra,
+// so a failure is logged rather than failing the render.
+const writeSidecarSubtitles = async (
+	cues: SubtitleCue[],
+	workspace: RunWorkspace
+): Promise<WriteSubtitlesResult | null> => {
+	try {
+		return await writeSubtitleFiles({
+			cues,
+			outputFilename: getRunArtifactName(workspace, "story_subtitles"),
+		});
+	} catch (subtitleErr) {
+		console.error(
+			"Failed to write subtitles:",
+			subtitleErr instanceof Error ? subtitleErr.message : subtitleErr
+		);
+		return null;
+	}
+};
+
+// Resolve a card's logo upload to a path for videoService
+const toCardSegment = async (
+	card: CardSettings,
+	tenantId: string,
+	field: string
+): Promise<CardSegmentOptions> => ({
+	...card,
+	logoPath: card.logoUploadId
+		? await resolveLogoPath(
+				card.logoUploadId,
+				tenantId,
+				`${field}.logoUploadId`
+		  )
+		: undefined,
+});
+
+// Compile the video for a set of generated scenes: one segment per scene,
+// timed to its narration, between the optional title and end cards. Scenes whose image failed keep their audio over a
+// fallback frame. SRT/WebVTT captions are written alongside, timed to this
+// video.
+export const renderVideo = async (
+	params: RenderVideoParams
+): Promise<RenderVideoResult> => {
+	const {
+		scenes,
+		fullAudioFilename,
+		options,
+		outputVideoFilename,
+		workspace,
+		onProgress,
+	} = params;
+	const {
+		tenantId,
+		render,
+		motion,
+		sceneMotions,
+		transition,
+		captionStyle,
+		music,
+		titleCard,
+		endCard,
+		sceneOverlays,
+		watermark,
+	} = options;
+
+	const totalAudioDuration = scenes.reduce(
+		(sum, scene) => sum + getSceneDuration(scene),
+		0
+	);
+
+	// Captions are timed against the same per-scene narration durations,
+	// which start after the title card
+	const cues = buildSubtitleCues(
+		scenes.map((scene) => ({
+			text: stripSsml(scene.sceneText),
+			duration: getSceneDuration(scene),
+		})),
+		titleCard?.duration ?? 0
+	);
+	const burnInSubtitlesPath = captionStyle
+		? await writeBurnInScript({
+				cues,
+				style: captionStyle,
+				frameWidth: render.width,
+				frameHeight: render.height,
+				outputFilename: "captions",
+				directory: workspace.dir,
+		  })
+		: undefined;
+
+	const backgroundMusic = music
+		? { ...music, trackPath: await resolveMusicTrackPath(music, tenantId) }
+		: undefined;
+	const watermarkLogo = watermark
+		? {
+				...watermark,
+				logoPath: await resolveLogoPath(
+					watermark.logoUploadId,
+					tenantId,
+					"watermark.logoUploadId"
+				),
+		  }
+		: undefined;
+
+	const compilationResult = await compileVideoWithFullAudio({
+		segments: scenes.map((scene, i) => ({
+			imageFilename: scene.imageFilename,
+			duration: getSceneDuration(scene),
+			motion: sceneMotions?.[i] || motion,
+			overlay: sceneOverlays?.[i] || undefined,
+		})),
+		transition,
+		fullAudioFilename,
+		totalAudioDuration,
+		outputVideoFilename,
+		workspaceDir: workspace.dir,
+		render,
+		music: backgroundMusic,
+		titleCard:
+			titleCard && (await toCardSegment(titleCard, tenantId, "titleCard")),
+		endCard: endCard && (await toCardSegment(endCard, tenantId, "endCard")),
+		watermark: watermarkLogo,
+		burnInSubtitlesPath,
+		onProgress,
+	});
+	return {
+		videoFilename: compilationResult.videoFilename,
+		subtitles: await writeSidecarSubtitles(cues, workspace),
+	};
+};
@@ -0,0 +1,358 @@
+import path from "path";
+import fs from "fs/promises";
+import {
+	ArtifactType,
+	ARTIFACT_TYPES,
+	getArtifactDir,
+} from "./artifactService";
+import { getUploadedTrackDir } from "./musicService";
+import { getUploadedLogoDir } from "./brandingService";
+import * as projectService from "./projectService";
+import { getActiveRunIds, sweepStaleWorkspaces } from "./workspaceService";
+import { deleteStoredFile } from "./storage";
+import { InsufficientStorageError } from "../errors/appErrors";
+import { RenderRequestBody } from "../types/express.d";
+
+// Retention policy for everything under outputs/. Ages are in hours and 0
+// keeps files forever; sizes are in bytes and 0 means no limit.
+//
+//   RETENTION_MAX_AGE_HOURS            default age for every artifact type (168)
+//   RETENTION_<TYPE>_MAX_AGE_HOURS     per type: IMAGES, AUDIO, VIDEOS,
+//                                      SUBTITLES, MUSIC (uploads), LOGOS
+//                                      (uploads), PROJECTS
+//   RETENTION_TEMP_MAX_AGE_HOURS       orphaned run workspaces (6)
+//   RETENTION_MAX_TOTAL_BYTES          total size of all artifacts (0)
+//   RETENTION_SWEEP_INTERVAL_MINUTES   how often the sweeper runs; 0 disables it (60)
+//   MIN_FREE_DISK_BYTES                new jobs are refused below this (1 GiB)
+//
+// A project is deleted once it has gone unchanged for its age limit; pinned
+// projects never are. Every file a remaining project references is kept with
+// it, whatever the file's own age, as are the artifacts of runs still in
+// progress. The response cache has its own limit (CACHE_MAX_BYTES) and is
+// not swept here.
+//
+// With a shared storage backend (STORAGE_BACKEND=s3) the files under
+// outputs/ are this server's local copies. Expired files are deleted from
+// storage as well, but the size limit only evicts local copies, which are
+// synced back in when needed. Objects this server never had a copy of are
+// left to the bucket's own lifecycle rules.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Files younger than this are never evicted for size, so a run's artifacts
+// are not removed between being written and being recorded on its project
+const MIN_EVICTION_AGE_MS = 15 * 60 * 1000;
+
+type RetainedType = ArtifactType | "music" | "logos";
+
+const readNumber = (value: string | undefined, fallback: number): number => {
+	if (value === undefined || value.trim() === "") return fallback;
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+export interface RetentionPolicy {
+	maxAgeMs: Record<RetainedType | "projects", number>; // 0 keeps forever
+	tempMaxAgeMs: number;
+	maxTotalBytes: number; // 0 means no limit
+	sweepIntervalMs: number; // 0 disables the background sweeper
+	minFreeDiskBytes: number; // 0 disables the disk space check
+}
+
+// Read from the environment on each use
+export const getRetentionPolicy = (): RetentionPolicy => {
+	const defaultHours = readNumber(process.env.RETENTION_MAX_AGE_HOURS, 168);
+	const hoursFor = (name: string) =>
+		readNumber(process.env[`RETENTION_${name}_MAX_AGE_HOURS`], defaultHours) *
+		HOUR_MS;
+	return {
+		maxAgeMs: {
+			images: hoursFor("IMAGES"),
+			audio: hoursFor("AUDIO"),
+			videos: hoursFor("VIDEOS"),
+			subtitles: hoursFor("SUBTITLES"),
+			music: hoursFor("MUSIC"),
+			logos: hoursFor("LOGOS"),
+			projects: hoursFor("PROJECTS"),
+		},
+		tempMaxAgeMs:
+			readNumber(process.env.RETENTION_TEMP_MAX_AGE_HOURS, 6) * HOUR_MS,
+		maxTotalBytes: readNumber(process.env.RETENTION_MAX_TOTAL_BYTES, 0),
+		sweepIntervalMs:
+			readNumber(process.env.RETENTION_SWEEP_INTERVAL_MINUTES, 60) * 60 * 1000,
+		minFreeDiskBytes: readNumber(
+			process.env.MIN_FREE_DISK_BYTES,
+			1024 * 1024 * 1024
+		),
+	};
+};
+
+// --- Disk space ---
+
+// Free bytes available to this process on the disk holding outputs/
+export const getFreeDiskBytes = async (): Promise<number> => {
+	// statfs needs an existing path; outputs/ may not have been created yet
+	const outputRoot = getArtifactDir("images");
+	await fs.mkdir(outputRoot, { recursive: true });
+	const stats = await fs.statfs(outputRoot);
+	return stats.bavail * stats.bsize;
+};
+
+// Throws InsufficientStorageError when free disk space is below
+// MIN_FREE_DISK_BYTES. Called before accepting any job that writes files.
+export const assertDiskSpaceAvailable = async (): Promise<void> => {
+	const { minFreeDiskBytes } = getRetentionPolicy();
+	if (!(minFreeDiskBytes > 0)) return;
+	const freeBytes = await getFreeDiskBytes();
+	if (freeBytes < minFreeDiskBytes) {
+		console.warn(
+			`Refusing new job: ${freeBytes} bytes free, ${minFreeDiskBytes} required.`
+		);
+		throw new InsufficientStorageError(
+			"Not enough free disk space to start a new job; try again later."
+		);
+	}
+};
+
+// --- Sweeper ---
+
+interface ArtifactFile {
+	type: RetainedType;
+	filePath: string;
+	filename: string;
+	size: number;
+	mtimeMs: number;
+}
+
+export interface SweepResult {
+	deletedFiles: number;
+	deletedProjects: number;
+	freedBytes: number;
+}
+
+const IMAGE_EXTENSIONS = new Set([".png", ".jpg", ".jpeg", ".webp"]);
+
+const getRetainedDir = (type: RetainedType): string =>
+	type === "music"
+		? getUploadedTrackDir()
+		: type === "logos"
+		? getUploadedLogoDir()
+		: getArtifactDir(type);
+
+// Plain files of one artifact type. Images live in the outputs/ root next to
+// the other artifact directories, so only image files are taken from there.
+// Uploads sit one level down, in a directory per tenant.
+const listArtifactFiles = async (
+	type: RetainedType,
+	dir: string = getRetainedDir(type)
+): Promise<ArtifactFile[]> => {
+	let entries;
+	try {
+		entries = await fs.readdir(dir, { withFileTypes: true });
+	} catch (error: any) {
+		if (error.code === "ENOENT") return [];
+		throw error;
+	}
+	const isUploadRoot =
+		(type === "music" || type === "logos") && dir === getRetainedDir(type);
+	const files: ArtifactFile[] = [];
+	for (const entry of entries) {
+		if (isUploadRoot) {
+			if (entry.isDirectory()) {
+				files.push(
+					...(await listArtifactFiles(type, path.join(dir, entry.name)))
+				);
+			}
+			continue;
+		}
+		if (!entry.isFile()) continue;
+		if (
+			type === "images" &&
+			!IMAGE_EXTENSIONS.has(path.extname(entry.name).toLowerCase())
+		) {
+			continue;
+		}
+		const filePath = path.join(dir, entry.name);
+		try {
+			const stats = await fs.stat(filePath);
+			files.push({
+				type,
+				filePath,
+				filename: entry.name,
+				size: stats.size,
+				mtimeMs: stats.mtimeMs,
+			});
+		} catch {
+			// Deleted since readdir
+		}
+	}
+	return files;
+};
+
+// Filenames referenced by the projects being kept, which must survive the
+// sweep so the projects can still be re-rendered and edited
+const collectReferencedFilenames = (
+	manifests: projectService.ProjectManifest[]
+): Set<string> => {
+	const referenced = new Set<string>();
+	const add = (filename: string | null | undefined) => {
+		if (filename) referenced.add(filename);
+	};
+	// Uploads a render request refers to
+	const addUploads = (renderRequest: RenderRequestBody) => {
+		add(renderRequest.music?.uploadId);
+		add(renderRequest.titleCard?.logoUploadId);
+		add(renderRequest.endCard?.logoUploadId);
+		add(renderRequest.watermark?.logoUploadId);
+	};
+	for (const manifest of manifests) {
+		for (const scene of manifest.scenes) {
+			add(scene.imageFilename);
+			add(scene.audioFilename);
+		}
+		add(manifest.fullAudioFilename);
+		add(manifest.subtitles?.srtFilename);
+		add(manifest.subtitles?.vttFilename);
+		for (const render of manifest.renders) {
+			add(render.videoFilename);
+			addUploads(render.renderRequest);
+		}
+		addUploads(manifest.renderRequest);
+	}
+	return referenced;
+};
+
+// Expired files also go from storage; evicted ones only lose their local copy
+const deleteFile = async (
+	file: ArtifactFile,
+	reason: "expired" | "over size limit"
+): Promise<boolean> => {
+	try {
+		if (reason === "expired") {
+			await deleteStoredFile(file.filePath);
+		} else {
+			await fs.rm(file.filePath, { force: true });
+		}
+		console.log(`Retention: deleted ${file.type}/${file.filename} (${reason})`);
+		return true;
+	} catch (error) {
+		console.warn(`Retention: failed to delete ${file.filePath}:`, error);
+		return false;
+	}
+};
+
+let sweepInProgress: Promise<SweepResult> | null = null;
+
+const runSweep = async (): Promise<SweepResult> => {
+	const policy = getRetentionPolicy();
+	const now = Date.now();
+	const result: SweepResult = {
+		deletedFiles: 0,
+		deletedProjects: 0,
+		freedBytes: 0,
+	};
+
+	// 1. Project manifests past their age, unless pinned
+	const manifests = await projectService.listProjectManifests();
+	const keptManifests: projectService.ProjectManifest[] = [];
+	for (const manifest of manifests) {
+		const ageMs = now - Date.parse(manifest.updatedAt);
+		const maxAgeMs = policy.maxAgeMs.projects;
+		if (!manifest.pinned && maxAgeMs > 0 && ageMs > maxAgeMs) {
+			await projectService.deleteProjectManifest(manifest.projectId);
+			result.deletedProjects++;
+		} else {
+			keptManifests.push(manifest);
+		}
+	}
+	const referencedFilenames = collectReferencedFilenames(keptManifests);
+	// Artifact names end with their run's ID (see workspaceService)
+	const activeRunIds = getActiveRunIds();
+	const isProtected = (file: ArtifactFile) =>
+		referencedFilenames.has(file.filename) ||
+		activeRunIds.some((runId) => file.filename.includes(runId));
+
+	// 2. Artifacts past their type's age
+	const remaining: ArtifactFile[] = [];
+	for (const type of [...ARTIFACT_TYPES, "music" as const, "logos" as const]) {
+		const maxAgeMs = policy.maxAgeMs[type];
+		for (const file of await listArtifactFiles(type)) {
+			const expired =
+				maxAgeMs > 0 && now - file.mtimeMs > maxAgeMs && !isProtected(file);
+			if (expired && (await deleteFile(file, "expired"))) {
+				result.deletedFiles++;
+				result.freedBytes += file.size;
+			} else {
+				remaining.push(file);
+			}
+		}
+	}
+
+	// 3. Orphaned run workspaces
+	if (policy.tempMaxAgeMs > 0) {
+		result.freedBytes += await sweepStaleWorkspaces(policy.tempMaxAgeMs);
+	}
+
+	// 4. Oldest unprotected artifacts while over the total size limit
+	if (policy.maxTotalBytes > 0) {
+		let totalBytes = remaining.reduce((sum, file) => sum + file.size, 0);
+		const candidates = remaining
+			.filter(
+				(file) =>
+					now - file.mtimeMs > MIN_EVICTION_AGE_MS && !isProtected(file)
+			)
+			.sort((a, b) => a.mtimeMs - b.mtimeMs);
+		for (const file of candidates) {
+			if (totalBytes <= policy.maxTotalBytes) break;
+			if (await deleteFile(file, "over size limit")) {
+				totalBytes -= file.size;
+				result.deletedFiles++;
+				result.freedBytes += file.size;
+			}
+		}
+		if (totalBytes > policy.maxTotalBytes) {
+			console.warn(
+				`Retention: ${totalBytes} bytes remain, over the ${policy.maxTotalBytes} byte limit; the rest belongs to projects or runs in progress.`
+			);
+		}
+	}
+
+	return result;
+};
+
+// --- Service Function: Sweep Artifacts ---
+// Applies the retention policy once. Concurrent calls share one sweep.
+export const sweepArtifacts = (): Promise<SweepResult> => {
+	if (!sweepInProgress) {
+		sweepInProgress = runSweep().finally(() => {
+			sweepInProgress = null;
+		});
+	}
+	return sweepInProgress;
+};
+
+// --- Service Function: Start Retention Sweeper ---
+// Sweeps shortly after startup and then every RETENTION_SWEEP_INTERVAL_MINUTES.
+// The timer does not keep the process alive.
+export const startRetentionSweeper = (): void => {
+	const { sweepIntervalMs } = getRetentionPolicy();
+	if (!(sweepIntervalMs > 0)) {
+		console.log("Retention sweeper disabled.");
+		return;
+	}
+	const sweep = async () => {
+		try {
+			const result = await sweepArtifacts();
+			console.log(
+				`Retention sweep finished: ${result.deletedFiles} files and ${result.deletedProjects} projects deleted, ${result.freedBytes} bytes freed.`
+			);
+		} catch (error) {
+			console.error("Retention sweep failed:", error);
+		}
+	};
+	setTimeout(sweep, 10 * 1000).unref();
+	setInterval(sweep, sweepIntervalMs).unref();
+	console.log(
+		`Retention sweeper started (every ${sweepIntervalMs / 60000} minutes).`
+	);
+};
@@ -0,0 +1,292 @@
+import path from "path";
+import {
+	refinePromptForImage,
+	generateImage,
+	GenerationOptions,
+} from "./generationService";
+import {
+	synthesizeSpeech,
+	getAudioDuration,
+	concatenateAudioFiles,
+} from "./audioService";
+import * as imageService from "./imageService";
+import { getTtsProvider } from "./tts";
+import { deleteStoredFile } from "./storage";
+import {
+	assignCharacterVoices,
+	DialogueLine,
+	findSpeakers,
+	getCharacterVoice,
+	parseDialogueLines,
+} from "./dialogueService";
+import { CacheScope } from "./cacheService";
+import { getRunArtifactName, RunWorkspace } from "./workspaceService";
+import { ImageStyle, SceneProcessingResult, StoryBible } from "../types/story";
+import { NarrationRequestOptions } from "../types/express.d";
+
+// Building blocks for generating a single scene's assets, shared by the full
+// pipeline and by per-scene edits of a saved project.
+
+export interface SceneNarration {
+	audioFilename: string;
+	audioDuration: number; // Seconds
+}
+
+export interface NarrationTrack {
+	fullAudioFilename: string;
+	totalAudioDuration: number; // Seconds
+}
+
+// How long a scene stays on screen: its pinned duration if the storyboard
+// sets one, otherwise the length of its narration
+export const getSceneDuration = (scene: SceneProcessingResult): number =>
+	scene.pinnedDuration ?? scene.audioDuration;
+
+// Silence between dialogue lines when the request sets none
+const DEFAULT_LINE_PAUSE_SECONDS = 0.3;
+
+// The TTS settings shared by every line of a narration
+const getSpeechOptions = (narration: NarrationRequestOptions | undefined) => ({
+	provider: narration?.provider,
+	voice: narration?.voice,
+	speakingRate: narration?.speakingRate,
+	pitch: narration?.pitch,
+	languageCode: narration?.languageCode,
+	ssml: narration?.ssml,
+});
+
+// --- Service Function: Assign Story Voices ---
+// With multi-voice narration, gives every character who speaks in the texts
+// a voice up front, in order of first line, so each keeps one voice across
+// scenes. The result is saved with the project for later re-narration.
+export const assignStoryVoices = (
+	narration: NarrationRequestOptions | undefined,
+	texts: string[]
+): NarrationRequestOptions | undefined => {
+	if (!narration?.multiVoice) return narration;
+	const characterVoices = assignCharacterVoices(
+		findSpeakers(texts),
+		narration.characterVoices,
+		getTtsProvider(narration.provider).getCharacterVoices(
+			narration.languageCode
+		),
+		narration.voice
+	);
+	console.log(
+		`Character voices: ${
+			characterVoices
+				.map((entry) => `${entry.name}=${entry.voice}`)
+				.join(", ") || "none"
+		}`
+	);
+	return { ...narration, characterVoices };
+};
+
+// Synthesize each dialogue line in its speaker's voice and join them, with a
+// short pause after every line but the last, into one file
+const narrateDialogue = async (
+	lines: DialogueLine[],
+	narration: NarrationRequestOptions,
+	outputFilename: string,
+	cache?: CacheScope
+): Promise<string> => {
+	const speechOptions = getSpeechOptions(narration);
+	const characterVoices = assignCharacterVoices(
+		lines.flatMap((line) => (line.speaker ? [line.speaker] : [])),
+		narration.characterVoices,
+		getTtsProvider(narration.provider).getCharacterVoices(
+			narration.languageCode
+		),
+		narration.voice
+	);
+	const pauseSeconds = narration.linePauseSeconds ?? DEFAULT_LINE_PAUSE_SECONDS;
+
+	const linePaths: string[] = [];
+	try {
+		const lineFilenames: string[] = [];
+		const paddedDurations: (number | null)[] = [];
+		for (let i = 0; i < lines.length; i++) {
+			const { speaker, text } = lines[i];
+			const savedLine = await synthesizeSpeech({
+				...speechOptions,
+				voice:
+					(speaker && getCharacterVoice(characterVoices, speaker)) ||
+					narration.voice,
+				text,
+				outputFilename: `${outputFilename}_line_${i + 1}`,
+				cache,
+			});
+			linePaths.push(savedLine.audioFilePath);
+			lineFilenames.push(savedLine.audioFilename);
+			const isLast = i === lines.length - 1;
+			paddedDurations.push(
+				isLast || pauseSeconds === 0
+					? null
+					: (await getAudioDuration(savedLine.audioFilePath)) + pauseSeconds
+			);
+		}
+		const joined = await concatenateAudioFiles({
+			audioFilenames: lineFilenames,
+			outputFilename,
+			durations: paddedDurations,
+		});
+		return joined.audioFilePath;
+	} finally {
+		// Only the joined scene narration is kept
+		for (const linePath of linePaths) {
+			await deleteStoredFile(linePath).catch((error) =>
+				console.error(`Failed to remove dialogue line ${linePath}:`, error)
+			);
+		}
+	}
+};
+
+// --- Service Function: Narrate Scene ---
+// With multi-voice narration, dialogue is read line by line in each
+// speaker's voice; otherwise the text is read in one voice.
+export const narrateScene = async (
+	text: string,
+	narration: NarrationRequestOptions | undefined,
+	outputFilename: string,
+	cache?: CacheScope
+): Promise<SceneNarration> => {
+	const lines = narration?.multiVoice ? parseDialogueLines(text) : [];
+	let audioFilePath: string;
+	if (narration && lines.some((line) => line.speaker)) {
+		console.log(
+			`Narrating ${lines.length} dialogue lines for ${outputFilename}...`
+		);
+		audioFilePath = await narrateDialogue(
+			lines,
+			narration,
+			outputFilename,
+			cache
+		);
+	} else {
+		const savedAudio = await synthesizeSpeech({
+			...getSpeechOptions(narration),
+			text,
+			outputFilename,
+			cache,
+		});
+		audioFilePath = savedAudio.audioFilePath;
+	}
+	const audioDuration = await getAudioDuration(audioFilePath);
+	return { audioFilename: path.basename(audioFilePath), audioDuration };
+};
+
+interface NarrationTrackScene {
+	narration: SceneNarration;
+	duration?: number; // Pad or trim the narration to this length (pinned scenes)
+}
+
+// --- Service Function: Build Narration Track ---
+// Stitches per-scene narration into one continuous track. Captions are
+// written with the video (see renderService), which knows where the
+// narration starts.
+export const buildNarrationTrack = async (
+	scenes: NarrationTrackScene[],
+	workspace: RunWorkspace
+): Promise<NarrationTrack> => {
+	const durations = scenes.map(
+		(scene) => scene.duration ?? scene.narration.audioDuration
+	);
+	const savedFullAudio = await concatenateAudioFiles({
+		audioFilenames: scenes.map((scene) => scene.narration.audioFilename),
+		outputFilename: getRunArtifactName(workspace, "full_story_audio"),
+		durations: scenes.map((scene) => scene.duration ?? null),
+	});
+	// Segment durations must add up to the track, so sum rather than re-probe
+	const totalAudioDuration = durations.reduce((sum, d) => sum + d, 0);
+	console.log(
+		`Full story audio saved: ${savedFullAudio.audioFilename} (${totalAudioDuration}s)`
+	);
+
+	return {
+		fullAudioFilename: savedFullAudio.audioFilename,
+		totalAudioDuration,
+	};
+};
+
+// --- Service Function: Narrate Storyboard ---
+// Narrates scenes that have no narration yet (new or edited text) and builds
+// the full track in the storyboard's current order, honouring pinned
+// durations. Returns the updated scenes alongside the track.
+export const narrateStoryboard = async (
+	scenes: SceneProcessingResult[],
+	narration: NarrationRequestOptions | undefined,
+	workspace: RunWorkspace,
+	cache?: CacheScope
+): Promise<{ scenes: SceneProcessingResult[]; track: NarrationTrack }> => {
+	const narrated: SceneProcessingResult[] = [];
+	for (const scene of scenes) {
+		if (scene.audioFilename) {
+			narrated.push(scene);
+			continue;
+		}
+		console.log(`Synthesizing audio for scene ${scene.sceneIndex}...`);
+		const sceneNarration = await narrateScene(
+			scene.sceneText,
+			narration,
+			getRunArtifactName(workspace, `scene_${scene.sceneIndex}_audio`),
+			cache
+		);
+		narrated.push({ ...scene, ...sceneNarration });
+	}
+
+	const track = await buildNarrationTrack(
+		narrated.map((scene) => ({
+			narration: {
+				audioFilename: scene.audioFilename as string,
+				audioDuration: scene.audioDuration,
+			},
+			duration: scene.pinnedDuration,
+		})),
+		workspace
+	);
+	return { scenes: narrated, track };
+};
+
+interface GenerateSceneImageParams {
+	sceneText: string;
+	models: GenerationOptions;
+	storyBible?: StoryBible;
+	style?: ImageStyle; // Art-style preset and refinement template
+	prompt?: string; // Hand-written prompt; skips refinement when given
+	baseFilename: string; // Image filename without extension
+	cache?: CacheScope;
+	onPromptRefined?: (refinedPrompt: string) => void;
+}
+
+// --- Service Function: Generate Scene Image ---
+export const generateSceneImage = async (
+	params: GenerateSceneImageParams
+): Promise<{ refinedPrompt: string; imageFilename: string }> => {
+	const {
+		sceneText,
+		models,
+		storyBible,
+		style,
+		prompt,
+		baseFilename,
+		cache,
+		onPromptRefined,
+	} = params;
+
+	const refinedPrompt =
+		prompt ??
+		(await refinePromptForImage(sceneText, models, storyBible, cache, style));
+	onPromptRefined?.(refinedPrompt);
+	const imageBase64 = await generateImage(
+		refinedPrompt,
+		models,
+		storyBible,
+		cache,
+		style
+	);
+	const savedImage = await imageService.saveImageToFile(
+		imageBase64,
+		baseFilename
+	);
+	return { refinedPrompt, imageFilename: savedImage.filename };
+};
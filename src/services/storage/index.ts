@@ -0,0 +1,113 @@
+import path from "path";
+import fs from "fs/promises";
+import {
+	LOCAL_OUTPUT_ROOT,
+	StorageBackend,
+	StorageBackendName,
+} from "./storageBackend";
+import { localStorageBackend } from "./localStorageBackend";
+import { s3StorageBackend } from "./s3StorageBackend";
+import { getArtifactContentType } from "../artifactService";
+import { NotFoundError, StorageError } from "../../errors/appErrors";
+
+export * from "./storageBackend";
+
+const backends: Record<StorageBackendName, StorageBackend> = {
+	local: localStorageBackend,
+	s3: s3StorageBackend,
+};
+
+export const STORAGE_BACKEND_NAMES = Object.keys(
+	backends
+) as StorageBackendName[];
+
+export const isStorageBackendName = (
+	value: unknown
+): value is StorageBackendName =>
+	typeof value === "string" && value in backends;
+
+// Resolve the backend named by STORAGE_BACKEND, falling back to "local"
+export const getStorageBackend = (): StorageBackend => {
+	const configured = process.env.STORAGE_BACKEND;
+	return backends[isStorageBackendName(configured) ? configured : "local"];
+};
+
+// --- Syncing local files ---
+// Services keep writing artifacts under outputs/ because ffmpeg needs real
+// files. Those files are the scratch copies: each one is synced out to the
+// backend once written, and synced back in before it is used as an input on
+// a server that does not have it yet.
+
+// Storage key of a file under outputs/, e.g. "audio/scene_1_<jobId>.wav"
+export const getStorageKey = (localPath: string): string => {
+	const relative = path.relative(LOCAL_OUTPUT_ROOT, localPath);
+	if (!relative || relative.startsWith("..") || path.isAbsolute(relative)) {
+		throw new StorageError(`Not a file under outputs/: ${localPath}`);
+	}
+	return relative.split(path.sep).join("/");
+};
+
+// --- Service Function: Sync File Out ---
+export const syncFileOut = async (localPath: string): Promise<void> => {
+	await getStorageBackend().put(
+		getStorageKey(localPath),
+		localPath,
+		getArtifactContentType(localPath)
+	);
+};
+
+// --- Service Function: Sync File In ---
+// Makes sure the file exists locally, downloading it if needed. Throws
+// StorageError when it is in neither place.
+export const syncFileIn = async (localPath: string): Promise<void> => {
+	try {
+		await fs.access(localPath);
+		return;
+	} catch {
+		// Not on this server yet
+	}
+	const key = getStorageKey(localPath);
+	try {
+		await getStorageBackend().download(key, localPath);
+	} catch (error) {
+		if (error instanceof NotFoundError) {
+			throw new StorageError(`File not found in storage: ${key}`);
+		}
+		throw error;
+	}
+};
+
+// --- Service Function: Read Stored File ---
+// Reads the stored object rather than a local copy, which another server may
+// have replaced since. Returns null when there is no such object. Meant for
+// small records such as project manifests, not media.
+export const readStoredFile = async (
+	localPath: string
+): Promise<Buffer | null> => {
+	let body;
+	try {
+		({ body } = await getStorageBackend().getStream(getStorageKey(localPath)));
+	} catch (error) {
+		if (error instanceof NotFoundError) return null;
+		throw error;
+	}
+	const chunks: Buffer[] = [];
+	for await (const chunk of body) {
+		chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+	}
+	return Buffer.concat(chunks);
+};
+
+// --- Service Function: List Stored Files ---
+// Filenames of the stored objects directly inside a directory under outputs/
+export const listStoredFiles = async (localDir: string): Promise<string[]> => {
+	const keys = await getStorageBackend().list(`${getStorageKey(localDir)}/`);
+	return keys.map((key) => key.slice(key.lastIndexOf("/") + 1));
+};
+
+// --- Service Function: Delete Stored File ---
+// Removes the local copy and the stored object
+export const deleteStoredFile = async (localPath: string): Promise<void> => {
+	await fs.rm(localPath, { force: true });
+	await getStorageBackend().delete(getStorageKey(localPath));
+};
@@ -0,0 +1,131 @@
+import path from "path";
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import {
+	LOCAL_OUTPUT_ROOT,
+	StorageBackend,
+	StoredObjectStream,
+} from "./storageBackend";
+import { NotFoundError, StorageError } from "../../errors/appErrors";
+
+// Stores objects as plain files under outputs/, which is also where the
+// services write them, so putting a freshly written artifact costs nothing.
+// Fine for a single server; replicas need a shared backend such as "s3".
+
+const resolveKey = (key: string): string => {
+	const filePath = path.resolve(LOCAL_OUTPUT_ROOT, key);
+	if (!filePath.startsWith(path.resolve(LOCAL_OUTPUT_ROOT) + path.sep)) {
+		throw new StorageError(`Invalid storage key: ${key}`);
+	}
+	return filePath;
+};
+
+// Parse a single "bytes=start-end" range against the object size. Anything
+// else returns null and the whole object is sent, as HTTP allows.
+const parseRange = (
+	range: string | undefined,
+	size: number
+): { start: number; end: number } | null => {
+	const match = range?.match(/^bytes=(\d*)-(\d*)$/);
+	if (!match || (!match[1] && !match[2])) return null;
+	let start: number;
+	let end: number;
+	if (!match[1]) {
+		// Suffix range: the last N bytes
+		start = Math.max(size - parseInt(match[2], 10), 0);
+		end = size - 1;
+	} else {
+		start = parseInt(match[1], 10);
+		end = match[2] ? Math.min(parseInt(match[2], 10), size - 1) : size - 1;
+	}
+	return start <= end ? { start, end } : null;
+};
+
+const statObject = async (key: string, filePath: string) => {
+	try {
+		return await fs.stat(filePath);
+	} catch (error: any) {
+		if (error.code === "ENOENT") {
+			throw new NotFoundError(`Stored object not found: ${key}`);
+		}
+		throw new StorageError(`Failed to read stored object: ${key}`);
+	}
+};
+
+export const localStorageBackend: StorageBackend = {
+	name: "local",
+
+	async put(key, filePath) {
+		const target = resolveKey(key);
+		if (path.resolve(filePath) === target) return;
+		try {
+			await fs.mkdir(path.dirname(target), { recursive: true });
+			await fs.copyFile(filePath, target);
+		} catch (error) {
+			console.error(`Failed to store ${key}:`, error);
+			throw new StorageError(`Failed to store object: ${key}`);
+		}
+	},
+
+	async getStream(key, range): Promise<StoredObjectStream> {
+		const filePath = resolveKey(key);
+		const stats = await statObject(key, filePath);
+		const byteRange = parseRange(range, stats.size);
+		return {
+			body: createReadStream(filePath, byteRange ?? undefined),
+			contentLength: byteRange
+				? byteRange.end - byteRange.start + 1
+				: stats.size,
+			contentRange: byteRange
+				? `bytes ${byteRange.start}-${byteRange.end}/${stats.size}`
+				: undefined,
+			lastModified: stats.mtime,
+		};
+	},
+
+	async download(key, filePath) {
+		const source = resolveKey(key);
+		await statObject(key, source);
+		if (path.resolve(filePath) === source) return;
+		try {
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await fs.copyFile(source, filePath);
+		} catch (error) {
+			console.error(`Failed to copy ${key} to ${filePath}:`, error);
+			throw new StorageError(`Failed to read stored object: ${key}`);
+		}
+	},
+
+	async delete(key) {
+		try {
+			await fs.rm(resolveKey(key), { force: true });
+		} catch (error) {
+			console.error(`Failed to delete ${key}:`, error);
+			throw new StorageError(`Failed to delete stored object: ${key}`);
+		}
+	},
+
+	async list(prefix) {
+		let entries;
+		try {
+			entries = await fs.readdir(resolveKey(prefix), { withFileTypes: true });
+		} catch (error: any) {
+			if (error.code === "ENOENT") return [];
+			console.error(`Failed to list ${prefix}:`, error);
+			throw new StorageError(`Failed to list stored objects: ${prefix}`);
+		}
+		return entries
+			.filter((entry) => entry.isFile())
+			.map((entry) => prefix + entry.name);
+	},
+
+	// Local files are only reachable through the API's own signed URLs
+	// (see artifactService)
+	async getSignedUrl() {
+		return null;
+	},
+
+	getLocalPath(key) {
+		return resolveKey(key);
+	},
+};
@@ -0,0 +1,204 @@
+import path from "path";
+import fs from "fs/promises";
+import { createReadStream, createWriteStream } from "fs";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import {
+	DeleteObjectCommand,
+	GetObjectCommand,
+	ListObjectsV2Command,
+	PutObjectCommand,
+	S3Client,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { StorageBackend, StoredObjectStream } from "./storageBackend";
+import {
+	AppError,
+	ConfigurationError,
+	NotFoundError,
+	StorageError,
+} from "../../errors/appErrors";
+
+// Stores objects in an S3-compatible bucket (AWS S3, MinIO, ...).
+//
+//   S3_BUCKET              bucket name (required); it must already exist
+//   S3_ENDPOINT            e.g. "http://localhost:9000" for a local MinIO
+//   S3_REGION              defaults to "us-east-1"
+//   S3_ACCESS_KEY_ID       credentials; without them the AWS SDK's usual
+//   S3_SECRET_ACCESS_KEY   credential chain (env, profile, IAM role) is used
+//   S3_FORCE_PATH_STYLE    "true" for path-style URLs; defaults to true when
+//                          S3_ENDPOINT is set, as MinIO needs
+//   S3_KEY_PREFIX          optional prefix for every key, e.g. "reels/"
+
+interface S3Config {
+	bucket: string;
+	keyPrefix: string;
+}
+
+let client: S3Client | null = null;
+
+const getConfig = (): S3Config => {
+	const bucket = process.env.S3_BUCKET;
+	if (!bucket) {
+		throw new ConfigurationError(
+			"Server configuration error: S3_BUCKET is required for S3 storage."
+		);
+	}
+	return { bucket, keyPrefix: process.env.S3_KEY_PREFIX || "" };
+};
+
+const getClient = (): S3Client => {
+	if (!client) {
+		const endpoint = process.env.S3_ENDPOINT || undefined;
+		const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+		const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+		const forcePathStyle = process.env.S3_FORCE_PATH_STYLE
+			? process.env.S3_FORCE_PATH_STYLE === "true"
+			: Boolean(endpoint);
+		client = new S3Client({
+			endpoint,
+			region: process.env.S3_REGION || "us-east-1",
+			forcePathStyle,
+			credentials:
+				accessKeyId && secretAccessKey
+					? { accessKeyId, secretAccessKey }
+					: undefined,
+			// The SDK's default checksum trailers make uploads aws-chunked,
+			// which not every S3-compatible server decodes
+			requestChecksumCalculation: "WHEN_REQUIRED",
+			responseChecksumValidation: "WHEN_REQUIRED",
+		});
+		console.log(
+			`S3 storage client created (endpoint: ${endpoint || "AWS default"}).`
+		);
+	}
+	return client;
+};
+
+// Map an SDK failure for `key` to an AppError
+const toStorageError = (error: any, key: string, action: string): AppError => {
+	if (error instanceof AppError) return error;
+	const status = error?.$metadata?.httpStatusCode;
+	if (error?.name === "NoSuchKey" || error?.name === "NotFound" || status === 404) {
+		return new NotFoundError(`Stored object not found: ${key}`);
+	}
+	if (error?.name === "InvalidRange" || status === 416) {
+		return new AppError(
+			"Requested range is not satisfiable.",
+			416,
+			"VALIDATION_ERROR"
+		);
+	}
+	console.error(`S3 ${action} failed for ${key}:`, error);
+	return new StorageError(`Failed to ${action} stored object: ${key}`);
+};
+
+export const s3StorageBackend: StorageBackend = {
+	name: "s3",
+
+	async put(key, filePath, contentType) {
+		const { bucket, keyPrefix } = getConfig();
+		try {
+			const { size } = await fs.stat(filePath);
+			await getClient().send(
+				new PutObjectCommand({
+					Bucket: bucket,
+					Key: keyPrefix + key,
+					Body: createReadStream(filePath),
+					ContentLength: size,
+					ContentType: contentType,
+				})
+			);
+			console.log(`Uploaded ${key} to bucket ${bucket} (${size} bytes).`);
+		} catch (error) {
+			throw toStorageError(error, key, "store");
+		}
+	},
+
+	async getStream(key, range): Promise<StoredObjectStream> {
+		const { bucket, keyPrefix } = getConfig();
+		try {
+			const response = await getClient().send(
+				new GetObjectCommand({
+					Bucket: bucket,
+					Key: keyPrefix + key,
+					Range: range,
+				})
+			);
+			return {
+				body: response.Body as Readable,
+				contentLength: response.ContentLength,
+				contentRange: response.ContentRange,
+				lastModified: response.LastModified,
+				etag: response.ETag,
+			};
+		} catch (error) {
+			throw toStorageError(error, key, "read");
+		}
+	},
+
+	async download(key, filePath) {
+		const { body } = await this.getStream(key);
+		// Write next to the target and rename, so a failed download never
+		// leaves a truncated file behind for ffmpeg to pick up
+		const partialPath = `${filePath}.${process.pid}.part`;
+		try {
+			await fs.mkdir(path.dirname(filePath), { recursive: true });
+			await pipeline(body, createWriteStream(partialPath));
+			await fs.rename(partialPath, filePath);
+			console.log(`Downloaded ${key} to ${filePath}.`);
+		} catch (error) {
+			await fs.rm(partialPath, { force: true }).catch(() => {});
+			throw toStorageError(error, key, "read");
+		}
+	},
+
+	async delete(key) {
+		const { bucket, keyPrefix } = getConfig();
+		try {
+			await getClient().send(
+				new DeleteObjectCommand({ Bucket: bucket, Key: keyPrefix + key })
+			);
+		} catch (error) {
+			throw toStorageError(error, key, "delete");
+		}
+	},
+
+	async list(prefix) {
+		const { bucket, keyPrefix } = getConfig();
+		const keys: string[] = [];
+		let continuationToken: string | undefined;
+		try {
+			do {
+				const response = await getClient().send(
+					new ListObjectsV2Command({
+						Bucket: bucket,
+						Prefix: keyPrefix + prefix,
+						Delimiter: "/", // Direct children only
+						ContinuationToken: continuationToken,
+					})
+				);
+				for (const object of response.Contents ?? []) {
+					if (object.Key) keys.push(object.Key.slice(keyPrefix.length));
+				}
+				continuationToken = response.NextContinuationToken;
+			} while (continuationToken);
+		} catch (error) {
+			throw toStorageError(error, prefix, "list");
+		}
+		return keys;
+	},
+
+	async getSignedUrl(key, expiresInSeconds) {
+		const { bucket, keyPrefix } = getConfig();
+		try {
+			return await getSignedUrl(
+				getClient(),
+				new GetObjectCommand({ Bucket: bucket, Key: keyPrefix + key }),
+				{ expiresIn: expiresInSeconds }
+			);
+		} catch (error) {
+			throw toStorageError(error, key, "sign");
+		}
+	},
+};
@@ -0,0 +1,42 @@
+// Common interface implemented by every artifact store
+import path from "path";
+import { Readable } from "stream";
+
+export type StorageBackendName = "local" | "s3";
+
+// Local files are kept under outputs/ (or OUTPUT_DIR when set), and an
+// object's key is its path relative to it, e.g. "videos/story_video_<jobId>.mp4"
+export const LOCAL_OUTPUT_ROOT = process.env.OUTPUT_DIR
+	? path.resolve(process.env.OUTPUT_DIR)
+	: path.join(__dirname, "../../../outputs");
+
+export interface StoredObjectStream {
+	body: Readable;
+	contentLength?: number;
+	contentRange?: string; // Set when only part of the object was requested
+	lastModified?: Date;
+	etag?: string;
+}
+
+export interface StorageBackend {
+	name: StorageBackendName;
+	// Store the local file at filePath under key, replacing any existing object
+	put(key: string, filePath: string, contentType?: string): Promise<void>;
+	// Read an object, or the byte range given as an HTTP Range header value.
+	// Throws NotFoundError when the object does not exist.
+	getStream(key: string, range?: string): Promise<StoredObjectStream>;
+	// Copy an object to a local file, e.g. as an ffmpeg input.
+	// Throws NotFoundError when the object does not exist.
+	download(key: string, filePath: string): Promise<void>;
+	// Deleting a missing object is not an error
+	delete(key: string): Promise<void>;
+	// Keys of the objects directly under prefix (which ends with "/"), not
+	// those in deeper "directories"; empty when there are none
+	list(prefix: string): Promise<string[]>;
+	// Time-limited URL that reads the object without going through the API,
+	// or null when the backend has no such URLs
+	getSignedUrl(key: string, expiresInSeconds: number): Promise<string | null>;
+	// Backends that keep objects on this machine expose their path, so they
+	// can be served with res.sendFile
+	getLocalPath?(key: string): string;
+}
@@ -0,0 +1,153 @@
+import path from "path";
+import fs from "fs/promises";
+import { spawnSync } from "child_process";
+import * as jobService from "./jobService";
+import * as workspaceService from "./workspaceService";
+import { runStoryPipeline } from "./storyPipelineService";
+import { parseGenerationOptions } from "./generationService";
+import { createCacheScope } from "./cacheService";
+import { ArtifactType, getArtifactDir } from "./artifactService";
+import { resolveRenderOptions } from "../controllers/renderOptions";
+
+// Two story runs at once, with the fake model and TTS providers, must keep
+// their workspaces, artifact names and cleanup apart. Everything is written
+// under the per-file OUTPUT_DIR set up in jest.setup.ts.
+
+const TENANT_ID = "spec-concurrency";
+
+// Rendering needs ffmpeg, from FFMPEG_PATH or the PATH
+const hasFfmpeg =
+	spawnSync(process.env.FFMPEG_PATH || "ffmpeg", ["-version"]).status === 0;
+if (!hasFfmpeg) {
+	console.warn(
+		"Skipping the concurrent pipeline test: ffmpeg was not found. Install it or set FFMPEG_PATH."
+	);
+}
+const describeWithFfmpeg = hasFfmpeg ? describe : describe.skip;
+
+const STORIES = [
+	"A fox woke early in its den. It ran down to the river. The water was cold and fast.",
+	"An owl watched the moon rise. It flew over the sleeping town. At dawn it returned to its oak.",
+];
+
+// Every artifact a finished job points at, with the directory it lives in
+const listJobArtifacts = (
+	result: jobService.StoryJobResult
+): { type: ArtifactType; filename: string }[] => [
+	...result.sceneImageResults.flatMap((scene) => [
+		{ type: "images" as const, filename: scene.imageFilename as string },
+		{ type: "audio" as const, filename: scene.audioFilename as string },
+	]),
+	{ type: "audio", filename: result.fullAudioFilename as string },
+	{ type: "videos", filename: result.videoResult?.videoFilename as string },
+	{ type: "subtitles", filename: result.subtitles?.srtFilename as string },
+	{ type: "subtitles", filename: result.subtitles?.vttFilename as string },
+];
+
+const exists = (filePath: string): Promise<boolean> =>
+	fs.access(filePath).then(
+		() => true,
+		() => false
+	);
+
+describeWithFfmpeg("runStoryPipeline with concurrent jobs", () => {
+	const jobIds: string[] = [];
+	const events: string[] = [];
+	const workspaces: workspaceService.RunWorkspace[] = [];
+
+	beforeAll(async () => {
+		const createRunWorkspace = workspaceService.createRunWorkspace;
+		const removeRunWorkspace = workspaceService.removeRunWorkspace;
+		jest
+			.spyOn(workspaceService, "createRunWorkspace")
+			.mockImplementation(async (runId) => {
+				const workspace = await createRunWorkspace(runId);
+				workspaces.push(workspace);
+				events.push(`create:${runId}`);
+				return workspace;
+			});
+		jest
+			.spyOn(workspaceService, "removeRunWorkspace")
+			.mockImplementation(async (workspace) => {
+				events.push(`remove:${workspace.runId}`);
+				await removeRunWorkspace(workspace);
+			});
+
+		const renderOptions = await resolveRenderOptions({}, TENANT_ID);
+		const runs = STORIES.map((story) => {
+			const job = jobService.createJob(TENANT_ID);
+			jobIds.push(job.id);
+			return runStoryPipeline(job.id, {
+				tenantId: TENANT_ID,
+				story,
+				models: parseGenerationOptions({ provider: "fake" }),
+				narration: { provider: "fake" },
+				renderOptions,
+				renderRequest: {},
+				cache: createCacheScope(true),
+			});
+		});
+		await Promise.all(runs);
+	}, 120000);
+
+	afterAll(() => {
+		jest.restoreAllMocks();
+	});
+
+	it("completes both jobs", () => {
+		for (const jobId of jobIds) {
+			const job = jobService.getJob(jobId);
+			expect(job?.error).toBeUndefined();
+			expect(job?.status).toBe("completed");
+			expect(job?.result.videoResult).not.toBeNull();
+		}
+	});
+
+	it("runs the jobs side by side in separate workspaces", () => {
+		expect(workspaces.map((workspace) => workspace.runId).sort()).toEqual(
+			[...jobIds].sort()
+		);
+		expect(new Set(workspaces.map((workspace) => workspace.dir)).size).toBe(2);
+		for (const workspace of workspaces) {
+			expect(path.basename(workspace.dir)).toBe(workspace.runId);
+		}
+		// Both workspaces existed before either job cleaned up
+		expect(events.slice(0, 2).every((event) => event.startsWith("create:"))).toBe(
+			true
+		);
+	});
+
+	it("names every artifact after its own job", () => {
+		const [first, second] = jobIds;
+		for (const [jobId, otherJobId] of [
+			[first, second],
+			[second, first],
+		]) {
+			const result = jobService.getJob(jobId)?.result as jobService.StoryJobResult;
+			for (const { filename } of listJobArtifacts(result)) {
+				expect(filename).toContain(jobId);
+				expect(filename).not.toContain(otherJobId);
+			}
+		}
+	});
+
+	it("removes each workspace once and keeps both jobs' artifacts", async () => {
+		for (const jobId of jobIds) {
+			expect(events.filter((event) => event === `remove:${jobId}`)).toHaveLength(
+				1
+			);
+			expect(workspaceService.isRunActive(jobId)).toBe(false);
+		}
+		for (const workspace of workspaces) {
+			expect(await exists(workspace.dir)).toBe(false);
+		}
+		for (const jobId of jobIds) {
+			const result = jobService.getJob(jobId)?.result as jobService.StoryJobResult;
+			for (const { type, filename } of listJobArtifacts(result)) {
+				expect(await exists(path.join(getArtifactDir(type), filename))).toBe(
+					true
+				);
+			}
+		}
+	});
+});
@@ -0,0 +1,724 @@
+import {
+	splitStoryIntoScenes,
+	extractStoryBible,
+	generateVisualPromptsFromStory,
+	GenerationOptions,
+} from "./generationService";
+import {
+	renderVideo,
+	RenderOptions,
+	RenderVideoResult,
+} from "./renderService";
+import * as jobService from "./jobService";
+import * as projectService from "./projectService";
+import {
+	narrateScene,
+	buildNarrationTrack,
+	generateSceneImage,
+	narrateStoryboard,
+	assignStoryVoices,
+	getSceneDuration,
+	SceneNarration,
+} from "./sceneService";
+import { recordUsage, UsageCounters } from "./usageService";
+import { applyStoryboardEdits } from "./storyboardService";
+import { mapWithConcurrency } from "./throttleService";
+import { CacheScope, createCacheScope } from "./cacheService";
+import {
+	createRunWorkspace,
+	getRunArtifactName,
+	removeRunWorkspace,
+	RunWorkspace,
+} from "./workspaceService";
+import { WriteSubtitlesResult } from "./subtitleService";
+import {
+	ImageStyle,
+	SceneProcessingResult,
+	StoryBible,
+	VideoCompilationResult,
+} from "../types/story";
+import {
+	NarrationRequestOptions,
+	RenderRequestBody,
+} from "../types/express.d";
+import {
+	AppError,
+	ConflictError,
+	getErrorCode,
+	RenderError,
+} from "../errors/appErrors";
+
+// How many scenes have images generated at once; override with SCENE_CONCURRENCY
+const SCENE_CONCURRENCY = Math.max(
+	1,
+	parseInt(process.env.SCENE_CONCURRENCY || "3", 10) || 3
+);
+// How far the narration may overrun targetDurationSeconds before the job
+// result carries a warning, as a fraction of the target. Shorter narration
+// is padded to the target instead.
+const TARGET_DURATION_TOLERANCE = 0.25;
+
+interface StoryPipelineParams {
+	tenantId: string; // Owner of the saved project
+	story: string;
+	// Narration already split to a requested scene count (see
+	// splitTextIntoScenes); the model picks the scene breaks when absent
+	sceneTexts?: string[];
+	targetDurationSeconds?: number; // Reel length the scenes were planned for
+	models: GenerationOptions; // Model provider and model IDs
+	style?: ImageStyle; // Art-style preset and refinement template
+	storyBible?: StoryBible; // Client-edited bible; extracted from the story when absent
+	narration?: NarrationRequestOptions; // TTS provider, voice and rate
+	renderOptions: RenderOptions; // Resolved from renderRequest
+	renderRequest: RenderRequestBody; // As sent, stored with the project
+	cache: CacheScope; // Per-request cache bypass and hit/miss counts
+}
+
+// Count a job's output against its tenant's daily quotas
+const recordJobUsage = async (
+	jobId: string,
+	delta: Partial<UsageCounters>
+): Promise<void> => {
+	const job = jobService.getJob(jobId);
+	if (job) await recordUsage(job.tenantId, delta);
+};
+
+// Render a job's video, forwarding progress as job events
+const renderJobVideo = async (
+	jobId: string,
+	workspace: RunWorkspace,
+	scenes: SceneProcessingResult[],
+	fullAudioFilename: string,
+	options: RenderOptions
+): Promise<RenderVideoResult> => {
+	jobService.setJobStage(jobId, "compiling", "compiling video");
+	let lastReportedPercent = -1;
+	const videoResult = await renderVideo({
+		scenes,
+		fullAudioFilename,
+		options,
+		outputVideoFilename: getRunArtifactName(workspace, "story_video"),
+		workspace,
+		onProgress: (percent) => {
+			// Only forward whole-percent changes to keep the event stream small
+			const rounded = Math.floor(percent);
+			if (rounded <= lastReportedPercent) return;
+			lastReportedPercent = rounded;
+			jobService.emitJobEvent(jobId, {
+				type: "render_progress",
+				percent: rounded,
+			});
+		},
+	});
+	const videoSeconds = scenes.reduce(
+		(sum, scene) => sum + getSceneDuration(scene),
+		0
+	);
+	await recordJobUsage(jobId, { renderMinutes: videoSeconds / 60 });
+	return videoResult;
+};
+
+// Runs the full story-to-reel pipeline for a job, recording stage changes
+// and partial results in the job store as it goes.
+export const runStoryPipeline = async (
+	jobId: string,
+	params: StoryPipelineParams
+): Promise<void> => {
+	const {
+		tenantId,
+		story,
+		sceneTexts,
+		targetDurationSeconds,
+		models,
+		style,
+		storyBible: providedStoryBible,
+		narration,
+		renderOptions,
+		renderRequest,
+		cache,
+	} = params;
+
+	const createdAt = new Date().toISOString();
+	let fullAudioFilename: string | null = null;
+	let fullAudioError: string | undefined = undefined;
+	let subtitles: WriteSubtitlesResult | null = null;
+	let workspace: RunWorkspace | null = null;
+
+	// The stats object is updated in place, so the job shows live counts
+	jobService.updateJobResult(jobId, { cacheStats: cache.stats });
+
+	try {
+		workspace = await createRunWorkspace(jobId);
+
+		// 1. Split story into scenes. With a requested scene count or reel
+		// length the narration is already split, and the model writes one
+		// visual prompt for each chunk, with the whole story as context.
+		jobService.setJobStage(jobId, "splitting", "splitting story into scenes");
+		let scenes: string[];
+		let visualPrompts: string[] | undefined = undefined;
+		if (sceneTexts) {
+			scenes = sceneTexts;
+			console.log(`Generating ${scenes.length} visual prompts...`);
+			try {
+				visualPrompts = await generateVisualPromptsFromStory(
+					story,
+					scenes,
+					models,
+					cache
+				);
+			} catch (promptsErr) {
+				// Each scene's prompt is refined from its own text instead
+				const message =
+					promptsErr instanceof Error ? promptsErr.message : String(promptsErr);
+				console.error(`Failed to generate visual prompts: ${message}`);
+				jobService.updateJobResult(jobId, { visualPromptsError: message });
+			}
+		} else {
+			console.log("Splitting story into scenes...");
+			scenes = await splitStoryIntoScenes(story, models, cache);
+		}
+		jobService.emitJobEvent(jobId, {
+			type: "scenes_split",
+			totalScenes: scenes.length,
+			scenes,
+		});
+
+		// 2. Build the story bible so every scene shares one look
+		let storyBible: StoryBible | undefined = providedStoryBible;
+		if (storyBible) {
+			console.log("Using story bible supplied with the request.");
+		} else {
+			jobService.setJobStage(jobId, "story_bible", "extracting story bible");
+			try {
+				storyBible = await extractStoryBible(story, models);
+			} catch (bibleErr) {
+				// Scenes can still be generated, just without the shared reference
+				const message =
+					bibleErr instanceof Error ? bibleErr.message : String(bibleErr);
+				console.error(`Failed to extract story bible: ${message}`);
+				jobService.updateJobResult(jobId, { storyBibleError: message });
+			}
+		}
+		if (storyBible && style?.style) {
+			// The chosen preset decides the look over the story's own art style
+			storyBible = { ...storyBible, artStyle: style.style };
+		}
+		if (storyBible) {
+			jobService.updateJobResult(jobId, { storyBible });
+			jobService.emitJobEvent(jobId, { type: "story_bible_ready", storyBible });
+		}
+
+		// 3. Narrate each scene separately so every image can stay on screen
+		// exactly as long as its own narration, then stitch one continuous track
+		jobService.setJobStage(jobId, "audio", "synthesizing narration");
+		const sceneNarrations: SceneNarration[] = [];
+		// Scene lengths pinned to pad the narration out to the target duration
+		let paddedDurations: number[] | undefined = undefined;
+		// Character voices are fixed here and saved with the project
+		const narrationOptions = assignStoryVoices(narration, scenes);
+		if (narrationOptions?.characterVoices) {
+			jobService.updateJobResult(jobId, {
+				characterVoices: narrationOptions.characterVoices,
+			});
+		}
+		try {
+			for (let i = 0; i < scenes.length; i++) {
+				console.log(`Synthesizing audio for scene ${i + 1}...`);
+				const sceneNarration = await narrateScene(
+					scenes[i],
+					narrationOptions,
+					getRunArtifactName(workspace, `scene_${i + 1}_audio`),
+					cache
+				);
+				sceneNarrations.push(sceneNarration);
+				await recordJobUsage(jobId, {
+					narrationSeconds: sceneNarration.audioDuration,
+				});
+			}
+
+			const narrationSeconds = sceneNarrations.reduce(
+				(sum, sceneNarration) => sum + sceneNarration.audioDuration,
+				0
+			);
+			if (
+				targetDurationSeconds !== undefined &&
+				narrationSeconds < targetDurationSeconds
+			) {
+				// Share the missing time out evenly as silence after each scene
+				const padding =
+					(targetDurationSeconds - narrationSeconds) / sceneNarrations.length;
+				paddedDurations = sceneNarrations.map(
+					(sceneNarration) => sceneNarration.audioDuration + padding
+				);
+			}
+			const track = await buildNarrationTrack(
+				sceneNarrations.map((narration, i) => ({
+					narration,
+					duration: paddedDurations?.[i],
+				})),
+				workspace
+			);
+			fullAudioFilename = track.fullAudioFilename;
+			jobService.updateJobResult(jobId, { fullAudioFilename });
+			if (
+				targetDurationSeconds !== undefined &&
+				track.totalAudioDuration - targetDurationSeconds >
+					targetDurationSeconds * TARGET_DURATION_TOLERANCE
+			) {
+				const durationWarning = `Narration runs ${track.totalAudioDuration.toFixed(
+					1
+				)}s against a target of ${targetDurationSeconds}s; shorten the story or raise narration.speakingRate.`;
+				console.warn(durationWarning);
+				jobService.updateJobResult(jobId, { durationWarning });
+			}
+			jobService.emitJobEvent(jobId, {
+				type: "audio_ready",
+				fullAudioFilename,
+				durationSeconds: track.totalAudioDuration,
+			});
+		} catch (audioErr) {
+			const message =
+				audioErr instanceof Error ? audioErr.message : String(audioErr);
+			console.error(`Failed to generate audio for the full story: ${message}`);
+			// Record the error and proceed to image generation
+			fullAudioError = `Failed to generate audio for the full story: ${message}`;
+			fullAudioFilename = null;
+			jobService.emitJobEvent(jobId, {
+				type: "audio_failed",
+				error: fullAudioError,
+			});
+		}
+
+		const sceneResults: SceneProcessingResult[] = [];
+		let successfulImageCount = 0;
+
+		// 4. Process scenes for IMAGE ONLY, a few at a time. Model calls are
+		// retried and rate limited in generationService.
+		jobService.setJobSceneProgress(jobId, 0, scenes.length);
+		await mapWithConcurrency(scenes, SCENE_CONCURRENCY, async (scene, i) => {
+			const sceneIndex = i + 1;
+			// Unique per run, so a saved project keeps pointing at its own images
+			const baseFilename = getRunArtifactName(
+				workspace as RunWorkspace,
+				`scene_${sceneIndex}`
+			);
+			console.log(
+				`Processing scene ${sceneIndex} for image: "${scene.substring(
+					0,
+					50
+				)}..."`
+			);
+
+			let currentImageFilename: string | null = null;
+			let currentRefinedPrompt: string | null = null;
+			let errorMsg: string | undefined = undefined;
+
+			try {
+				const generated = await generateSceneImage({
+					sceneText: scene,
+					models,
+					storyBible,
+					style,
+					prompt: visualPrompts?.[i],
+					baseFilename,
+					cache,
+					onPromptRefined: (refinedPrompt) => {
+						currentRefinedPrompt = refinedPrompt;
+						jobService.emitJobEvent(jobId, {
+							type: "prompt_refined",
+							sceneIndex,
+							refinedPrompt,
+						});
+					},
+				});
+				currentImageFilename = generated.imageFilename;
+				successfulImageCount++;
+				await recordJobUsage(jobId, { images: 1 });
+				console.log(
+					`Image saved for scene ${sceneIndex}: ${currentImageFilename}`
+				);
+			} catch (err) {
+				const message = err instanceof Error ? err.message : String(err);
+				console.error(
+					`Failed to process scene ${sceneIndex} image: ${message}`
+				);
+				errorMsg = message;
+			}
+
+			const sceneResult: SceneProcessingResult = {
+				sceneIndex,
+				sceneText: scene,
+				refinedPrompt: currentRefinedPrompt,
+				imageFilename: currentImageFilename,
+				audioFilename: fullAudioFilename
+					? sceneNarrations[sceneIndex - 1].audioFilename
+					: null,
+				audioDuration: fullAudioFilename
+					? sceneNarrations[sceneIndex - 1].audioDuration
+					: 0,
+				pinnedDuration: fullAudioFilename
+					? paddedDurations?.[sceneIndex - 1]
+					: undefined,
+				error: errorMsg,
+			};
+			// Scenes finish out of order; keep the list in scene order
+			sceneResults.push(sceneResult);
+			sceneResults.sort((a, b) => a.sceneIndex - b.sceneIndex);
+			jobService.emitJobEvent(jobId, {
+				type: errorMsg ? "image_failed" : "image_saved",
+				scene: sceneResult,
+			});
+			jobService.updateJobResult(jobId, {
+				sceneImageResults: [...sceneResults],
+			});
+			jobService.setJobSceneProgress(jobId, sceneResults.length, scenes.length);
+		});
+
+		console.log("Finished processing all scenes for images.");
+
+		// 5. Compile Video: one segment per scene, timed to its narration
+		let videoResult: VideoCompilationResult | null = null;
+		let videoError: string | undefined = fullAudioError; // Start with potential audio error
+
+		// Attempt video compilation only if we have images AND the full story audio
+		if (successfulImageCount > 0 && fullAudioFilename) {
+			try {
+				console.log(
+					`Compiling video from ${sceneResults.length} scenes (${successfulImageCount} images) and full audio...`
+				);
+				const rendered = await renderJobVideo(
+					jobId,
+					workspace,
+					sceneResults,
+					fullAudioFilename,
+					renderOptions
+				);
+				videoResult = { videoFilename: rendered.videoFilename };
+				subtitles = rendered.subtitles;
+				jobService.emitJobEvent(jobId, { type: "video_ready", videoResult });
+				console.log(
+					`Video compilation successful: ${videoResult.videoFilename}`
+				);
+			} catch (compileErr) {
+				const message =
+					compileErr instanceof Error ? compileErr.message : String(compileErr);
+				console.error(`Video compilation failed: ${message}`);
+				videoError = videoError
+					? `${videoError}; Video compile error: ${message}`
+					: `Video compile error: ${message}`;
+				jobService.emitJobEvent(jobId, { type: "video_failed", error: message });
+			}
+		} else if (!fullAudioFilename && successfulImageCount > 0) {
+			console.log(
+				"Skipping video compilation because full story audio generation failed."
+			);
+			if (!videoError)
+				videoError =
+					"Video compilation skipped: Full story audio generation failed.";
+		} else if (successfulImageCount === 0) {
+			console.log(
+				"Skipping video compilation because no scene images were generated successfully."
+			);
+			if (!videoError)
+				videoError = "Video compilation skipped: No scene images generated.";
+		}
+
+		jobService.updateJobResult(jobId, { videoResult, videoError, subtitles });
+
+		// 6. Save the project so it can be re-rendered without regenerating
+		try {
+			await projectService.saveProjectManifest({
+				projectId: jobId,
+				tenantId,
+				createdAt,
+				updatedAt: createdAt,
+				story,
+				models,
+				narration: narrationOptions,
+				style,
+				storyBible: storyBible ?? null,
+				scenes: sceneResults,
+				storyboardVersion: 1,
+				storyboardHistory: [],
+				fullAudioFilename,
+				subtitles,
+				renderRequest,
+				renders: videoResult
+					? [
+							{
+								...videoResult,
+								renderedAt: new Date().toISOString(),
+								storyboardVersion: 1,
+								renderRequest,
+							},
+					  ]
+					: [],
+			});
+			jobService.updateJobResult(jobId, { projectId: jobId });
+		} catch (manifestErr) {
+			// The run's results are still returned on the job
+			console.error(
+				"Failed to save project manifest:",
+				manifestErr instanceof Error ? manifestErr.message : manifestErr
+			);
+		}
+
+		jobService.completeJob(jobId);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Story pipeline failed for job ${jobId}:`, error);
+		jobService.failJob(jobId, message, getErrorCode(error));
+	} finally {
+		if (workspace) await removeRunWorkspace(workspace);
+	}
+};
+
+// Render a saved project's current storyboard and record the render on its
+// manifest. Scenes without narration (new or edited text) are narrated first.
+// Throws if the video cannot be compiled.
+const renderProjectForJob = async (
+	jobId: string,
+	workspace: RunWorkspace,
+	manifest: projectService.ProjectManifest,
+	renderOptions: RenderOptions,
+	renderRequest: RenderRequestBody,
+	cache: CacheScope
+): Promise<void> => {
+	const { projectId, storyboardVersion } = manifest;
+	let { scenes, fullAudioFilename } = manifest;
+	if (!scenes.some((scene) => scene.imageFilename)) {
+		throw new RenderError("Project has no scene images to render.");
+	}
+
+	if (!fullAudioFilename || scenes.some((scene) => !scene.audioFilename)) {
+		jobService.setJobStage(jobId, "audio", "synthesizing narration");
+		const narrated = await narrateStoryboard(
+			scenes,
+			manifest.narration,
+			workspace,
+			cache
+		);
+		const narratedSeconds = narrated.scenes.reduce(
+			(sum, scene, i) =>
+				scenes[i].audioFilename ? sum : sum + scene.audioDuration,
+			0
+		);
+		await recordJobUsage(jobId, { narrationSeconds: narratedSeconds });
+		scenes = narrated.scenes;
+		fullAudioFilename = narrated.track.fullAudioFilename;
+		jobService.updateJobResult(jobId, {
+			sceneImageResults: scenes,
+			fullAudioFilename,
+		});
+		jobService.emitJobEvent(jobId, {
+			type: "audio_ready",
+			fullAudioFilename,
+			durationSeconds: narrated.track.totalAudioDuration,
+		});
+		await projectService.updateProjectManifest(projectId, (saved) => {
+			// Skip if the storyboard was edited meanwhile; that edit wins
+			if (saved.storyboardVersion !== storyboardVersion) return;
+			saved.scenes = narrated.scenes;
+			saved.fullAudioFilename = narrated.track.fullAudioFilename;
+		});
+	}
+
+	console.log(`Rendering project ${projectId}...`);
+	let rendered: RenderVideoResult;
+	try {
+		rendered = await renderJobVideo(
+			jobId,
+			workspace,
+			scenes,
+			fullAudioFilename,
+			renderOptions
+		);
+	} catch (compileErr) {
+		const message =
+			compileErr instanceof Error ? compileErr.message : String(compileErr);
+		jobService.emitJobEvent(jobId, { type: "video_failed", error: message });
+		if (compileErr instanceof AppError) throw compileErr;
+		throw new RenderError(`Video compile error: ${message}`);
+	}
+	const videoResult = { videoFilename: rendered.videoFilename };
+	jobService.emitJobEvent(jobId, { type: "video_ready", videoResult });
+	jobService.updateJobResult(jobId, {
+		videoResult,
+		subtitles: rendered.subtitles,
+	});
+
+	await projectService.updateProjectManifest(projectId, (saved) => {
+		saved.renderRequest = renderRequest;
+		saved.subtitles = rendered.subtitles; // Timed to the latest render
+		saved.renders.push({
+			...videoResult,
+			renderedAt: new Date().toISOString(),
+			storyboardVersion,
+			renderRequest,
+		});
+	});
+	console.log(`Project ${projectId} rendered: ${videoResult.videoFilename}`);
+};
+
+// Show a saved project's assets on a job, as the story pipeline would
+const loadProjectIntoJob = (
+	jobId: string,
+	manifest: projectService.ProjectManifest
+): void => {
+	jobService.updateJobResult(jobId, {
+		projectId: manifest.projectId,
+		storyBible: manifest.storyBible,
+		sceneImageResults: manifest.scenes,
+		fullAudioFilename: manifest.fullAudioFilename,
+		subtitles: manifest.subtitles,
+	});
+};
+
+// Re-renders a saved project with new render options. Only the video is
+// compiled again; scenes, images and narration are reused as stored.
+export const runProjectRender = async (
+	jobId: string,
+	manifest: projectService.ProjectManifest,
+	renderOptions: RenderOptions,
+	renderRequest: RenderRequestBody
+): Promise<void> => {
+	loadProjectIntoJob(jobId, manifest);
+	const cache = createCacheScope();
+	jobService.updateJobResult(jobId, { cacheStats: cache.stats });
+	let workspace: RunWorkspace | null = null;
+	try {
+		workspace = await createRunWorkspace(jobId);
+		await renderProjectForJob(
+			jobId,
+			workspace,
+			manifest,
+			renderOptions,
+			renderRequest,
+			cache
+		);
+		jobService.completeJob(jobId);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Re-render failed for job ${jobId}:`, error);
+		jobService.failJob(jobId, message, getErrorCode(error));
+	} finally {
+		if (workspace) await removeRunWorkspace(workspace);
+	}
+};
+
+export interface SceneRegenerationParams {
+	sceneIndex: number; // 1-based, as in SceneProcessingResult
+	sceneText?: string; // Edited narration text; the scene is re-narrated
+	prompt?: string; // Hand-written image prompt; skips refinement
+}
+
+// Regenerates one scene of a saved project and recompiles the video with the
+// project's latest render options. Other scenes are left untouched.
+export const runSceneRegeneration = async (
+	jobId: string,
+	manifest: projectService.ProjectManifest,
+	params: SceneRegenerationParams,
+	renderOptions: RenderOptions
+): Promise<void> => {
+	const { sceneIndex, prompt } = params;
+	const { projectId, models } = manifest;
+	loadProjectIntoJob(jobId, manifest);
+	const cache = createCacheScope();
+	jobService.updateJobResult(jobId, { cacheStats: cache.stats });
+	let workspace: RunWorkspace | null = null;
+
+	try {
+		workspace = await createRunWorkspace(jobId);
+		const current = manifest.scenes[sceneIndex - 1];
+		const sceneText = params.sceneText ?? current.sceneText;
+
+		jobService.setJobStage(
+			jobId,
+			"scenes",
+			`scene ${sceneIndex} of ${manifest.scenes.length}`
+		);
+		let generated: { refinedPrompt: string; imageFilename: string };
+		try {
+			generated = await generateSceneImage({
+				sceneText,
+				models,
+				storyBible: manifest.storyBible ?? undefined,
+				style: manifest.style,
+				prompt,
+				baseFilename: getRunArtifactName(workspace, `scene_${sceneIndex}`),
+				// A cached result would just return the image being replaced
+				cache: { ...cache, bypass: true },
+				onPromptRefined: (refinedPrompt) =>
+					jobService.emitJobEvent(jobId, {
+						type: "prompt_refined",
+						sceneIndex,
+						refinedPrompt,
+					}),
+			});
+		} catch (imageErr) {
+			const message =
+				imageErr instanceof Error ? imageErr.message : String(imageErr);
+			jobService.emitJobEvent(jobId, {
+				type: "image_failed",
+				scene: { ...current, sceneText, error: message },
+			});
+			throw new AppError(
+				`Failed to regenerate scene ${sceneIndex}: ${message}`,
+				imageErr instanceof AppError ? imageErr.status : 500,
+				getErrorCode(imageErr)
+			);
+		}
+		await recordJobUsage(jobId, { images: 1 });
+
+		const scene: SceneProcessingResult = {
+			...current,
+			sceneText,
+			refinedPrompt: generated.refinedPrompt,
+			imageFilename: generated.imageFilename,
+			error: undefined,
+		};
+		jobService.emitJobEvent(jobId, { type: "image_saved", scene });
+
+		const textChanged = sceneText !== current.sceneText;
+		const updated = await projectService.updateProjectManifest(
+			projectId,
+			(saved) => {
+				if (saved.storyboardVersion !== manifest.storyboardVersion) {
+					throw new ConflictError(
+						"The storyboard was edited while the scene was regenerating; try again."
+					);
+				}
+				if (textChanged) {
+					// Edited text is a storyboard edit: new narration is synthesized
+					// and the full track rebuilt when the project is rendered below
+					applyStoryboardEdits(saved, [
+						{ type: "update", sceneIndex, sceneText },
+					]);
+				}
+				saved.scenes[sceneIndex - 1] = {
+					...saved.scenes[sceneIndex - 1],
+					refinedPrompt: scene.refinedPrompt,
+					imageFilename: scene.imageFilename,
+					error: undefined,
+				};
+			}
+		);
+		loadProjectIntoJob(jobId, updated);
+
+		await renderProjectForJob(
+			jobId,
+			workspace,
+			updated,
+			renderOptions,
+			updated.renderRequest,
+			cache
+		);
+		jobService.completeJob(jobId);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		console.error(`Scene regeneration failed for job ${jobId}:`, error);
+		jobService.failJob(jobId, message, getErrorCode(error));
+	} finally {
+		if (workspace) await removeRunWorkspace(workspace);
+	}
+};
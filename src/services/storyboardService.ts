@@ -0,0 +1,214 @@
+import { ProjectManifest } from "./projectService";
+import { SceneProcessingResult } from "../types/story";
+import { ValidationError } from "../errors/appErrors";
+
+// Keeps an edited storyboard renderable
+const MAX_SCENES = 100;
+
+// Edits to a project's scene list. Scene indexes are 1-based and refer to the
+// storyboard as left by the previous operation in the same request.
+export type StoryboardOperation =
+	| { type: "reorder"; order: number[] } // Current indexes in their new order
+	| { type: "merge"; sceneIndex: number } // Merge with the following scene
+	| { type: "split"; sceneIndex: number; texts: [string, string] }
+	| {
+			type: "update";
+			sceneIndex: number;
+			sceneText?: string;
+			pinnedDuration?: number | null; // null unpins
+	  };
+
+// One accepted edit request, kept on the manifest as the storyboard's history
+export interface StoryboardRevision {
+	version: number;
+	editedAt: string;
+	operations: StoryboardOperation[];
+	replacedSceneImage?: number; // Scene whose image was replaced by an upload
+}
+
+const normalizeText = (value: string): string =>
+	value.replace(/\s+/g, " ").trim();
+
+// The schema only knows the index is a positive integer
+const parseIndex = (value: number, sceneCount: number, field: string): number => {
+	if (value > sceneCount) {
+		throw ValidationError.forField(
+			field,
+			`${field} must be a scene index between 1 and ${sceneCount}.`
+		);
+	}
+	return value;
+};
+
+// Narration no longer matches the scene; it is re-synthesized on next render
+const withStaleNarration = (
+	scene: SceneProcessingResult
+): SceneProcessingResult => ({
+	...scene,
+	audioFilename: null,
+	audioDuration: 0,
+});
+
+// Check one operation against the current scenes and apply it. The shape of
+// each operation is checked by editStoryboardSchema before it gets here.
+const applyOperation = (
+	scenes: SceneProcessingResult[],
+	op: StoryboardOperation,
+	field: string
+): SceneProcessingResult[] => {
+	switch (op.type) {
+		case "reorder": {
+			const order = op.order;
+			if (
+				order.length !== scenes.length ||
+				new Set(order).size !== scenes.length
+			) {
+				throw ValidationError.forField(
+					`${field}.order`,
+					`${field}.order must list every scene index exactly once.`
+				);
+			}
+			return order.map(
+				(index, i) =>
+					scenes[parseIndex(index, scenes.length, `${field}.order[${i}]`) - 1]
+			);
+		}
+		case "merge": {
+			const sceneIndex = parseIndex(
+				op.sceneIndex,
+				scenes.length,
+				`${field}.sceneIndex`
+			);
+			if (sceneIndex === scenes.length) {
+				throw ValidationError.forField(
+					`${field}.sceneIndex`,
+					`${field}.sceneIndex has no following scene to merge.`
+				);
+			}
+			const [first, second] = scenes.slice(sceneIndex - 1, sceneIndex + 1);
+			// Keep the first scene's image, or the second's if the first has none,
+			// and the first scene's overlay and motion
+			const merged = withStaleNarration({
+				...(first.imageFilename ? first : second),
+				sceneIndex: first.sceneIndex,
+				sceneText: `${first.sceneText} ${second.sceneText}`,
+				pinnedDuration: undefined,
+			});
+			return [
+				...scenes.slice(0, sceneIndex - 1),
+				merged,
+				...scenes.slice(sceneIndex + 1),
+			];
+		}
+		case "split": {
+			const sceneIndex = parseIndex(
+				op.sceneIndex,
+				scenes.length,
+				`${field}.sceneIndex`
+			);
+			if (scenes.length >= MAX_SCENES) {
+				throw ValidationError.forField(
+					"operations",
+					`A storyboard can have at most ${MAX_SCENES} scenes.`
+				);
+			}
+			const original = scenes[sceneIndex - 1];
+			// Both halves start with the original image, overlay and motion
+			const halves = op.texts.map((text) =>
+				withStaleNarration({
+					...original,
+					sceneText: normalizeText(text),
+					pinnedDuration: undefined,
+				})
+			);
+			return [
+				...scenes.slice(0, sceneIndex - 1),
+				...halves,
+				...scenes.slice(sceneIndex),
+			];
+		}
+		case "update": {
+			const sceneIndex = parseIndex(
+				op.sceneIndex,
+				scenes.length,
+				`${field}.sceneIndex`
+			);
+			let scene = { ...scenes[sceneIndex - 1] };
+			if (op.sceneText !== undefined) {
+				const sceneText = normalizeText(op.sceneText);
+				if (sceneText !== scene.sceneText) {
+					scene = withStaleNarration({ ...scene, sceneText });
+				}
+			}
+			if (op.pinnedDuration === null) {
+				delete scene.pinnedDuration;
+			} else if (op.pinnedDuration !== undefined) {
+				scene.pinnedDuration = op.pinnedDuration;
+			}
+			return scenes.map((other, i) => (i === sceneIndex - 1 ? scene : other));
+		}
+	}
+};
+
+// Bumps the storyboard version and adds the change to its history
+const recordRevision = (
+	manifest: ProjectManifest,
+	change: Omit<StoryboardRevision, "version" | "editedAt">
+): void => {
+	manifest.storyboardVersion += 1;
+	manifest.storyboardHistory.push({
+		version: manifest.storyboardVersion,
+		editedAt: new Date().toISOString(),
+		...change,
+	});
+	console.log(
+		`Project ${manifest.projectId} storyboard updated to version ${manifest.storyboardVersion}.`
+	);
+};
+
+// --- Service Function: Apply Storyboard Edits ---
+// Applies the operations in order to the manifest's scenes, all or nothing,
+// and records a new storyboard version. Throws on the first invalid operation
+// without touching the manifest.
+export const applyStoryboardEdits = (
+	manifest: ProjectManifest,
+	operations: StoryboardOperation[]
+): void => {
+	let scenes = manifest.scenes;
+	operations.forEach((operation, i) => {
+		scenes = applyOperation(scenes, operation, `operations[${i}]`);
+	});
+
+	// Per-scene render options follow their scenes. Until the scenes are
+	// renumbered below, each keeps the sceneIndex of the scene it came from.
+	const remap = <T>(values: (T | null)[] | undefined): (T | null)[] | undefined =>
+		values && scenes.map((scene) => values[scene.sceneIndex - 1] ?? null);
+	const { sceneOverlays, sceneMotions } = manifest.renderRequest;
+	manifest.renderRequest = {
+		...manifest.renderRequest,
+		sceneOverlays: remap(sceneOverlays),
+		sceneMotions: remap(sceneMotions),
+	};
+
+	manifest.scenes = scenes.map((scene, i) => ({ ...scene, sceneIndex: i + 1 }));
+	// Scene order, text or timing changed, so the full track and captions are
+	// rebuilt on the next render
+	manifest.fullAudioFilename = null;
+	manifest.subtitles = null;
+	recordRevision(manifest, { operations });
+};
+
+// --- Service Function: Apply Scene Image Replacement ---
+// Points a scene at an uploaded image and records a new storyboard version.
+// Narration and timing are unchanged, so the full track is kept.
+export const applySceneImageReplacement = (
+	manifest: ProjectManifest,
+	sceneIndex: number,
+	imageFilename: string
+): void => {
+	const scene = manifest.scenes[sceneIndex - 1];
+	scene.imageFilename = imageFilename;
+	scene.refinedPrompt = null; // Not generated from a prompt
+	scene.error = undefined;
+	recordRevision(manifest, { operations: [], replacedSceneImage: sceneIndex });
+};
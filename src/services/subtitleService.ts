@@ -0,0 +1,327 @@
+import path from "path";
+import fs from "fs/promises";
+import { v4 as uuidv4 } from "uuid";
+import { StorageError } from "../errors/appErrors";
+import { getArtifactDir } from "./artifactService";
+import { syncFileOut } from "./storage";
+
+const SUBTITLE_DIR = getArtifactDir("subtitles"); // Local copies; synced to storage
+
+// Keep cues short enough to read on a phone screen
+const MAX_CUE_CHARS = 42;
+
+export type CaptionPosition = "top" | "middle" | "bottom";
+export type CaptionHighlightStyle = "none" | "word";
+
+// Styling for burned-in captions
+export interface CaptionStyle {
+	fontName: string;
+	fontSize: number;
+	position: CaptionPosition;
+	textColor: string; // "#RRGGBB"
+	highlightColor: string; // "#RRGGBB", used by the "word" highlight style
+	highlightStyle: CaptionHighlightStyle;
+}
+
+export const DEFAULT_CAPTION_STYLE: CaptionStyle = {
+	fontName: "Arial",
+	fontSize: 64,
+	position: "bottom",
+	textColor: "#FFFFFF",
+	highlightColor: "#FFD700",
+	highlightStyle: "none",
+};
+
+// A scene's narration text and how long it is spoken for
+export interface TimedSceneText {
+	text: string;
+	duration: number; // Seconds
+}
+
+interface CueWord {
+	text: string;
+	start: number;
+	end: number;
+}
+
+export interface SubtitleCue {
+	start: number; // Seconds from the start of the narration
+	end: number;
+	text: string;
+	words: CueWord[];
+}
+
+// Split text into cue-sized chunks, breaking on sentence ends first and
+// wrapping long sentences by word.
+const chunkText = (text: string): string[] => {
+	const sentences = text
+		.replace(/\s+/g, " ")
+		.split(/(?<=[.!?])\s+/)
+		.map((sentence) => sentence.trim())
+		.filter((sentence) => sentence.length > 0);
+
+	const chunks: string[] = [];
+	for (const sentence of sentences) {
+		let current = "";
+		for (const word of sentence.split(" ")) {
+			if (current && current.length + 1 + word.length > MAX_CUE_CHARS) {
+				chunks.push(current);
+				current = word;
+			} else {
+				current = current ? `${current} ${word}` : word;
+			}
+		}
+		if (current) chunks.push(current);
+	}
+	return chunks;
+};
+
+// Build cues timed against per-scene narration. Within a scene, time is
+// shared out by character count, which tracks speech length better than
+// word count for TTS output. `startOffset` shifts every cue, e.g. past a
+// title card.
+export const buildSubtitleCues = (
+	scenes: TimedSceneText[],
+	startOffset: number = 0
+): SubtitleCue[] => {
+	const cues: SubtitleCue[] = [];
+	let sceneStart = startOffset;
+
+	for (const scene of scenes) {
+		const chunks = chunkText(scene.text);
+		const totalChars = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+		let cursor = sceneStart;
+
+		for (const chunk of chunks) {
+			const chunkDuration = (chunk.length / totalChars) * scene.duration;
+			const words = chunk.split(" ");
+			const wordChars = words.reduce((sum, word) => sum + word.length, 0);
+			let wordCursor = cursor;
+			const cueWords: CueWord[] = words.map((word) => {
+				const wordDuration = (word.length / wordChars) * chunkDuration;
+				const cueWord = {
+					text: word,
+					start: wordCursor,
+					end: wordCursor + wordDuration,
+				};
+				wordCursor += wordDuration;
+				return cueWord;
+			});
+
+			cues.push({
+				start: cursor,
+				end: cursor + chunkDuration,
+				text: chunk,
+				words: cueWords,
+			});
+			cursor += chunkDuration;
+		}
+		sceneStart += scene.duration;
+	}
+	return cues;
+};
+
+// --- Formatting helpers ---
+
+const splitSeconds = (seconds: number) => {
+	const totalMs = Math.max(0, Math.round(seconds * 1000));
+	return {
+		hours: Math.floor(totalMs / 3600000),
+		minutes: Math.floor((totalMs % 3600000) / 60000),
+		secs: Math.floor((totalMs % 60000) / 1000),
+		ms: totalMs % 1000,
+	};
+};
+
+const pad = (value: number, length: number = 2): string =>
+	value.toString().padStart(length, "0");
+
+const formatSrtTime = (seconds: number): string => {
+	const { hours, minutes, secs, ms } = splitSeconds(seconds);
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)},${pad(ms, 3)}`;
+};
+
+const formatVttTime = (seconds: number): string => {
+	const { hours, minutes, secs, ms } = splitSeconds(seconds);
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(ms, 3)}`;
+};
+
+// ASS uses centiseconds and a single-digit hour
+const formatAssTime = (seconds: number): string => {
+	const { hours, minutes, secs, ms } = splitSeconds(seconds);
+	return `${hours}:${pad(minutes)}:${pad(secs)}.${pad(Math.floor(ms / 10))}`;
+};
+
+// "#RRGGBB" -> ASS "&H00BBGGRR"
+const toAssColor = (hex: string): string => {
+	const match = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+	if (!match) {
+		throw new Error(`Invalid caption colour: ${hex}`);
+	}
+	const [, r, g, b] = match;
+	return `&H00${b}${g}${r}`.toUpperCase();
+};
+
+export const toSrt = (cues: SubtitleCue[]): string => {
+	return cues
+		.map(
+			(cue, i) =>
+				`${i + 1}\n${formatSrtTime(cue.start)} --> ${formatSrtTime(
+					cue.end
+				)}\n${cue.text}\n`
+		)
+		.join("\n");
+};
+
+export const toWebVtt = (cues: SubtitleCue[]): string => {
+	const body = cues
+		.map(
+			(cue) =>
+				`${formatVttTime(cue.start)} --> ${formatVttTime(cue.end)}\n${
+					cue.text
+				}\n`
+		)
+		.join("\n");
+	return `WEBVTT\n\n${body}`;
+};
+
+// Keep story text from being read as ASS override tags ({...}) or escapes
+// (\N, \h). A word joiner after each backslash breaks up escapes without
+// showing on screen.
+const escapeAssText = (text: string): string =>
+	text
+		.replace(/\\/g, "\\\u2060")
+		.replace(/\{/g, "\\{")
+		.replace(/\}/g, "\\}");
+
+// Advanced SubStation Alpha script used for burned-in captions.
+// The "word" highlight style uses karaoke (\k) tags: each word switches from
+// the secondary colour (text) to the primary colour (highlight) as it is spoken.
+export const toAss = (
+	cues: SubtitleCue[],
+	style: CaptionStyle,
+	frameWidth: number = 1080,
+	frameHeight: number = 1920
+): string => {
+	const alignment = { bottom: 2, middle: 5, top: 8 }[style.position];
+	const marginV = Math.round(frameHeight * 0.08);
+	const isKaraoke = style.highlightStyle === "word";
+	const primary = toAssColor(isKaraoke ? style.highlightColor : style.textColor);
+	const secondary = toAssColor(style.textColor);
+
+	const header = [
+		"[Script Info]",
+		"ScriptType: v4.00+",
+		`PlayResX: ${frameWidth}`,
+		`PlayResY: ${frameHeight}`,
+		"WrapStyle: 0",
+		"",
+		"[V4+ Styles]",
+		"Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding",
+		`Style: Caption,${style.fontName},${style.fontSize},${primary},${secondary},&H00000000,&H80000000,1,0,0,0,100,100,0,0,1,3,1,${alignment},60,60,${marginV},1`,
+		"",
+		"[Events]",
+		"Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text",
+	];
+
+	const events = cues.map((cue) => {
+		const text = isKaraoke
+			? cue.words
+					.map(
+						(word) =>
+							`{\\k${Math.max(1, Math.round((word.end - word.start) * 100))}}${
+								escapeAssText(word.text)
+							}`
+					)
+					.join(" ")
+			: escapeAssText(cue.text);
+		return `Dialogue: 0,${formatAssTime(cue.start)},${formatAssTime(
+			cue.end
+		)},Caption,,0,0,0,,${text}`;
+	});
+
+	return [...header, ...events, ""].join("\n");
+};
+
+// --- Service Function: Write Subtitle Files ---
+
+interface WriteSubtitlesParams {
+	cues: SubtitleCue[];
+	outputFilename?: string; // Optional: Filename without extension
+}
+
+export interface WriteSubtitlesResult {
+	srtFilename: string;
+	vttFilename: string;
+}
+
+const ensureSubtitleDir = async (): Promise<void> => {
+	try {
+		await fs.mkdir(SUBTITLE_DIR, { recursive: true });
+	} catch (error) {
+		console.error("Error creating subtitle directory:", error);
+		throw new StorageError("Failed to create subtitle output directory.");
+	}
+};
+
+export const writeSubtitleFiles = async (
+	params: WriteSubtitlesParams
+): Promise<WriteSubtitlesResult> => {
+	const { cues, outputFilename: customFilename } = params;
+
+	if (!cues || cues.length === 0) {
+		throw new Error("No subtitle cues provided to write.");
+	}
+
+	await ensureSubtitleDir();
+
+	const baseName = customFilename || uuidv4();
+	const result: WriteSubtitlesResult = {
+		srtFilename: `${baseName}.srt`,
+		vttFilename: `${baseName}.vtt`,
+	};
+
+	const srtPath = path.join(SUBTITLE_DIR, result.srtFilename);
+	const vttPath = path.join(SUBTITLE_DIR, result.vttFilename);
+	await fs.writeFile(srtPath, toSrt(cues));
+	await fs.writeFile(vttPath, toWebVtt(cues));
+	await syncFileOut(srtPath);
+	await syncFileOut(vttPath);
+
+	console.log(`Subtitles written: ${result.srtFilename}, ${result.vttFilename}`);
+	return result;
+};
+
+interface WriteBurnInScriptParams {
+	cues: SubtitleCue[];
+	style: CaptionStyle;
+	frameWidth: number; // Video frame size the script is laid out for
+	frameHeight: number;
+	outputFilename?: string; // Optional: Filename without extension
+	directory?: string; // Defaults to the subtitles directory
+}
+
+// Write the .ass script used to burn captions in; returns its absolute path
+export const writeBurnInScript = async (
+	params: WriteBurnInScriptParams
+): Promise<string> => {
+	const { cues, style, frameWidth, frameHeight, outputFilename, directory } =
+		params;
+
+	if (!cues || cues.length === 0) {
+		throw new Error("No subtitle cues provided to write.");
+	}
+
+	if (!directory) await ensureSubtitleDir();
+
+	const scriptPath = path.join(
+		directory || SUBTITLE_DIR,
+		`${outputFilename || uuidv4()}.ass`
+	);
+	await fs.writeFile(
+		scriptPath,
+		toAss(cues, style, frameWidth, frameHeight)
+	);
+	console.log(`Caption script written: ${scriptPath}`);
+	return scriptPath;
+};
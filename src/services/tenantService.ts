@@ -0,0 +1,215 @@
+import fs from "fs";
+import crypto from "crypto";
+import { ConfigurationError, FieldIssue } from "../errors/appErrors";
+import {
+	array,
+	boolean,
+	number,
+	object,
+	required,
+	string,
+} from "../validation/schema";
+
+// Tenants are the customers behind client API keys. Each has its own daily
+// quotas (see usageService). They are read once, on first use, from the JSON
+// file named by TENANTS_FILE:
+//
+//   [
+//     {
+//       "id": "acme",                      letters, digits, "-" and "_"
+//       "name": "Acme Corp",
+//       "apiKeys": ["..."],
+//       "limits": { "imagesPerDay": 200, "narrationSecondsPerDay": 3600,
+//                   "renderMinutesPerDay": 60,
+//                   "uploadMegabytesPerDay": 500 },
+//       "admin": false                     may read every tenant's usage
+//     }
+//   ]
+//
+// A file with more than one tenant also needs ARTIFACT_URL_SECRET, since
+// artifacts are then only served through signed URLs (see
+// artifactController).
+//
+// Without TENANTS_FILE, the keys in API_KEYS all belong to one "default"
+// tenant, and with neither the API is open and every caller is that tenant,
+// which is only meant for local development. Limits left out of a tenant
+// come from QUOTA_IMAGES_PER_DAY, QUOTA_NARRATION_SECONDS_PER_DAY,
+// QUOTA_RENDER_MINUTES_PER_DAY and QUOTA_UPLOAD_MEGABYTES_PER_DAY; 0 means
+// unlimited, the default.
+
+export const DEFAULT_TENANT_ID = "default";
+
+export interface QuotaLimits {
+	imagesPerDay: number;
+	narrationSecondsPerDay: number;
+	renderMinutesPerDay: number;
+	uploadMegabytesPerDay: number; // Music and logo uploads
+}
+
+export interface Tenant {
+	id: string;
+	name: string;
+	apiKeys: string[];
+	limits: QuotaLimits; // 0 means unlimited
+	admin: boolean;
+}
+
+interface TenantRegistry {
+	tenants: Tenant[];
+	authRequired: boolean; // False when no keys are configured at all
+}
+
+const tenantFileSchema = required(
+	array(
+		object({
+			id: required(string({ minLength: 1, pattern: /^[A-Za-z0-9_-]{1,64}$/ })),
+			name: string({ maxLength: 200 }),
+			apiKeys: required(array(required(string({ minLength: 8 })))),
+			limits: object({
+				imagesPerDay: number({ min: 0, integer: true }),
+				narrationSecondsPerDay: number({ min: 0 }),
+				renderMinutesPerDay: number({ min: 0 }),
+				uploadMegabytesPerDay: number({ min: 0 }),
+			}),
+			admin: boolean(),
+		})
+	)
+);
+
+const readLimit = (value: string | undefined): number => {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+};
+
+const getDefaultLimits = (): QuotaLimits => ({
+	imagesPerDay: readLimit(process.env.QUOTA_IMAGES_PER_DAY),
+	narrationSecondsPerDay: readLimit(
+		process.env.QUOTA_NARRATION_SECONDS_PER_DAY
+	),
+	renderMinutesPerDay: readLimit(process.env.QUOTA_RENDER_MINUTES_PER_DAY),
+	uploadMegabytesPerDay: readLimit(
+		process.env.QUOTA_UPLOAD_MEGABYTES_PER_DAY
+	),
+});
+
+const loadTenantFile = (filePath: string): Tenant[] => {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(fs.readFileSync(filePath, "utf8"));
+	} catch (error) {
+		console.error(`Failed to read tenants file ${filePath}:`, error);
+		throw new ConfigurationError(
+			"Server configuration error: TENANTS_FILE could not be read."
+		);
+	}
+
+	const issues: FieldIssue[] = [];
+	tenantFileSchema(parsed, "tenants", issues);
+	if (issues.length > 0) {
+		console.error(`Invalid tenants file ${filePath}:`, issues);
+		throw new ConfigurationError(
+			`Server configuration error: invalid tenants file: ${issues[0].message}`
+		);
+	}
+
+	const defaults = getDefaultLimits();
+	const tenants = (parsed as Partial<Tenant>[]).map(
+		(entry): Tenant => ({
+			id: entry.id as string,
+			name: entry.name || (entry.id as string),
+			apiKeys: entry.apiKeys as string[],
+			limits: { ...defaults, ...entry.limits },
+			admin: entry.admin === true,
+		})
+	);
+
+	const seenIds = new Set<string>();
+	const seenKeys = new Set<string>();
+	for (const tenant of tenants) {
+		if (seenIds.has(tenant.id)) {
+			throw new ConfigurationError(
+				`Server configuration error: duplicate tenant ID "${tenant.id}".`
+			);
+		}
+		seenIds.add(tenant.id);
+		for (const key of tenant.apiKeys) {
+			if (seenKeys.has(key)) {
+				throw new ConfigurationError(
+					`Server configuration error: an API key is listed for more than one tenant (${tenant.id}).`
+				);
+			}
+			seenKeys.add(key);
+		}
+	}
+	return tenants;
+};
+
+const loadRegistry = (): TenantRegistry => {
+	const tenantsFile = process.env.TENANTS_FILE;
+	if (tenantsFile) {
+		const tenants = loadTenantFile(tenantsFile);
+		// API keys cannot scope downloads to one tenant's artifacts, so with
+		// several tenants artifacts are only served through signed URLs
+		if (tenants.length > 1 && !process.env.ARTIFACT_URL_SECRET) {
+			throw new ConfigurationError(
+				"Server configuration error: ARTIFACT_URL_SECRET must be set when TENANTS_FILE lists more than one tenant."
+			);
+		}
+		console.log(`Loaded ${tenants.length} tenants from ${tenantsFile}.`);
+		return { tenants, authRequired: true };
+	}
+
+	const apiKeys = (process.env.API_KEYS || "")
+		.split(",")
+		.map((key) => key.trim())
+		.filter((key) => key.length > 0);
+	return {
+		tenants: [
+			{
+				id: DEFAULT_TENANT_ID,
+				name: "Default",
+				apiKeys,
+				limits: getDefaultLimits(),
+				admin: true,
+			},
+		],
+		authRequired: apiKeys.length > 0,
+	};
+};
+
+let registry: TenantRegistry | null = null;
+
+const getRegistry = (): TenantRegistry => {
+	if (!registry) registry = loadRegistry();
+	return registry;
+};
+
+const keysMatch = (a: string, b: string): boolean => {
+	const bufferA = Buffer.from(a);
+	const bufferB = Buffer.from(b);
+	return (
+		bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB)
+	);
+};
+
+export const listTenants = (): Tenant[] => getRegistry().tenants;
+
+export const hasMultipleTenants = (): boolean =>
+	getRegistry().tenants.length > 1;
+
+export const getTenant = (tenantId: string): Tenant | undefined =>
+	getRegistry().tenants.find((tenant) => tenant.id === tenantId);
+
+// --- Service Function: Find Tenant By API Key ---
+// Returns null for a missing or unknown key. When no keys are configured
+// every caller is the default tenant.
+export const findTenantByApiKey = (key: string | undefined): Tenant | null => {
+	const { tenants, authRequired } = getRegistry();
+	if (!authRequired) return tenants[0];
+	if (!key) return null;
+	return (
+		tenants.find((tenant) =>
+			tenant.apiKeys.some((configured) => keysMatch(configured, key))
+		) ?? null
+	);
+};
@@ -0,0 +1,174 @@
+// Helpers for calling rate-limited upstream APIs: bounded concurrency,
+// retries with backoff, and a process-wide token bucket per upstream.
+import { AppError } from "../errors/appErrors";
+
+const sleep = (ms: number): Promise<void> =>
+	new Promise((resolve) => setTimeout(resolve, ms));
+
+const readPositiveNumber = (value: string | undefined, fallback: number) => {
+	const parsed = Number(value);
+	return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+// --- Service Function: Map With Concurrency ---
+// Runs `task` over `items` with at most `limit` in flight. Results keep the
+// order of `items`; the first rejection rejects the whole call.
+export const mapWithConcurrency = async <T, R>(
+	items: T[],
+	limit: number,
+	task: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+	const results: R[] = new Array(items.length);
+	let nextIndex = 0;
+	const worker = async (): Promise<void> => {
+		while (nextIndex < items.length) {
+			const index = nextIndex++;
+			results[index] = await task(items[index], index);
+		}
+	};
+	const workerCount = Math.max(1, Math.min(limit, items.length));
+	await Promise.all(Array.from({ length: workerCount }, worker));
+	return results;
+};
+
+// --- Token bucket ---
+
+export interface TokenBucket {
+	acquire: () => Promise<void>; // Resolves once a token has been taken
+}
+
+// Holds up to `capacity` tokens, refilled continuously at `refillPerSecond`.
+// Waiters are served in arrival order.
+export const createTokenBucket = (
+	capacity: number,
+	refillPerSecond: number
+): TokenBucket => {
+	let tokens = capacity;
+	let lastRefill = Date.now();
+	let queue: Promise<void> = Promise.resolve();
+
+	const refill = (): void => {
+		const now = Date.now();
+		tokens = Math.min(
+			capacity,
+			tokens + ((now - lastRefill) / 1000) * refillPerSecond
+		);
+		lastRefill = now;
+	};
+
+	const take = async (): Promise<void> => {
+		refill();
+		while (tokens < 1) {
+			await sleep(Math.ceil(((1 - tokens) / refillPerSecond) * 1000));
+			refill();
+		}
+		tokens -= 1;
+	};
+
+	return {
+		acquire: () => {
+			const turn = queue.then(take);
+			queue = turn;
+			return turn;
+		},
+	};
+};
+
+// Shared by every request in the process, so concurrent jobs together stay
+// within the upstream quota. Configure with MODEL_RATE_LIMIT_PER_MINUTE and
+// MODEL_RATE_LIMIT_BURST.
+const modelRateLimiters = new Map<string, TokenBucket>();
+
+export const getModelRateLimiter = (providerName: string): TokenBucket => {
+	let limiter = modelRateLimiters.get(providerName);
+	if (!limiter) {
+		const perMinute = readPositiveNumber(
+			process.env.MODEL_RATE_LIMIT_PER_MINUTE,
+			60
+		);
+		const burst = readPositiveNumber(process.env.MODEL_RATE_LIMIT_BURST, 10);
+		limiter = createTokenBucket(burst, perMinute / 60);
+		modelRateLimiters.set(providerName, limiter);
+	}
+	return limiter;
+};
+
+// --- Retries ---
+
+const TRANSIENT_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504]);
+const TRANSIENT_NETWORK_CODES = new Set([
+	"ECONNRESET",
+	"ECONNREFUSED",
+	"ETIMEDOUT",
+	"EAI_AGAIN",
+	"EPIPE",
+]);
+
+// Rate limits, server errors and dropped connections are worth retrying;
+// anything else (bad request, safety block, missing key) will fail again.
+// AppErrors are already classified by our own code and never retried.
+export const isTransientError = (error: unknown): boolean => {
+	if (error instanceof AppError) return false;
+	const err = error as { status?: unknown; code?: unknown; message?: unknown };
+	if (typeof err?.status === "number") {
+		return TRANSIENT_STATUS_CODES.has(err.status);
+	}
+	if (typeof err?.code === "string" && TRANSIENT_NETWORK_CODES.has(err.code)) {
+		return true;
+	}
+	return typeof err?.message === "string" && /fetch failed/i.test(err.message);
+};
+
+// Server-provided retry delay in milliseconds, if any. Understands a
+// `retryAfterMs` property and Google's RetryInfo error detail ("12s").
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+	const err = error as { retryAfterMs?: unknown; errorDetails?: unknown };
+	if (typeof err?.retryAfterMs === "number") return err.retryAfterMs;
+	if (Array.isArray(err?.errorDetails)) {
+		for (const detail of err.errorDetails) {
+			const match = /^(\d+(?:\.\d+)?)s$/.exec(String(detail?.retryDelay ?? ""));
+			if (match) return parseFloat(match[1]) * 1000;
+		}
+	}
+	return undefined;
+};
+
+interface RetryOptions {
+	maxAttempts?: number; // Including the first call; defaults to MODEL_MAX_ATTEMPTS or 4
+	baseDelayMs?: number;
+	maxDelayMs?: number;
+	label?: string; // Names the call in log messages
+}
+
+// --- Service Function: With Retry ---
+// Calls `fn`, retrying transient errors with exponential backoff and full
+// jitter. A server-provided retry delay is used as the minimum wait.
+export const withRetry = async <T>(
+	fn: () => Promise<T>,
+	options: RetryOptions = {}
+): Promise<T> => {
+	const {
+		maxAttempts = readPositiveNumber(process.env.MODEL_MAX_ATTEMPTS, 4),
+		baseDelayMs = 1000,
+		maxDelayMs = 30000,
+		label = "call",
+	} = options;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= maxAttempts || !isTransientError(error)) throw error;
+
+			const backoff =
+				Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+			const delay = Math.max(backoff, getRetryAfterMs(error) ?? 0);
+			console.warn(
+				`${label} failed (attempt ${attempt} of ${maxAttempts}): ${
+					error instanceof Error ? error.message : String(error)
+				}. Retrying in ${Math.round(delay)}ms...`
+			);
+			await sleep(delay);
+		}
+	}
+};
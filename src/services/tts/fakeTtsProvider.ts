@@ -0,0 +1,68 @@
+import fs from "fs/promises";
+import { TtsProvider, TtsRequest } from "./ttsProvider";
+
+const SAMPLE_RATE = 16000;
+const SECONDS_PER_WORD = 0.4; // Roughly 150 words per minute at rate 1
+const TONE_HZ = 220;
+// Each fake voice is a different tone, so multi-voice output is audible
+const VOICE_TONES_HZ: Record<string, number> = {
+	"fake-voice-1": 330,
+	"fake-voice-2": 440,
+	"fake-voice-3": 550,
+	"fake-voice-4": 660,
+};
+
+// Deterministic stand-in for tests and offline runs. Writes a quiet tone
+// whose length depends only on the word count and speaking rate, so the
+// same input always produces byte-identical audio.
+export const fakeTtsProvider: TtsProvider = {
+	name: "fake",
+	supportsSsml: false,
+	synthesizeToFile: async (request: TtsRequest, outputPath: string) => {
+		const wordCount = Math.max(
+			1,
+			request.text.split(/\s+/).filter((word) => word.length > 0).length
+		);
+		const rate =
+			request.speakingRate && request.speakingRate > 0
+				? request.speakingRate
+				: 1;
+		const durationSeconds = (wordCount * SECONDS_PER_WORD) / rate;
+		const toneHz = (request.voice && VOICE_TONES_HZ[request.voice]) || TONE_HZ;
+		await fs.writeFile(outputPath, buildToneWav(durationSeconds, toneHz));
+	},
+
+	getCharacterVoices: () => Object.keys(VOICE_TONES_HZ),
+};
+
+// 16-bit mono PCM WAV containing a low-volume sine tone
+export const buildToneWav = (
+	durationSeconds: number,
+	toneHz: number = TONE_HZ
+): Buffer => {
+	const sampleCount = Math.round(durationSeconds * SAMPLE_RATE);
+	const dataSize = sampleCount * 2;
+	const buffer = Buffer.alloc(44 + dataSize);
+
+	buffer.write("RIFF", 0);
+	buffer.writeUInt32LE(36 + dataSize, 4);
+	buffer.write("WAVE", 8);
+	buffer.write("fmt ", 12);
+	buffer.writeUInt32LE(16, 16); // fmt chunk size
+	buffer.writeUInt16LE(1, 20); // PCM
+	buffer.writeUInt16LE(1, 22); // mono
+	buffer.writeUInt32LE(SAMPLE_RATE, 24);
+	buffer.writeUInt32LE(SAMPLE_RATE * 2, 28); // byte rate
+	buffer.writeUInt16LE(2, 32); // block align
+	buffer.writeUInt16LE(16, 34); // bits per sample
+	buffer.write("data", 36);
+	buffer.writeUInt32LE(dataSize, 40);
+
+	for (let i = 0; i < sampleCount; i++) {
+		const sample = Math.round(
+			Math.sin((2 * Math.PI * toneHz * i) / SAMPLE_RATE) * 2000
+		);
+		buffer.writeInt16LE(sample, 44 + i * 2);
+	}
+	return buffer;
+};
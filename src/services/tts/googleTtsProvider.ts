@@ -0,0 +1,68 @@
+import fs from "fs/promises";
+import { TextToSpeechClient } from "@google-cloud/text-to-speech";
+import { TtsProvider, TtsRequest } from "./ttsProvider";
+import { TtsError } from "../../errors/appErrors";
+
+const DEFAULT_LANGUAGE_CODE = "en-US";
+
+// Distinct voices available for every account, by language
+const CHARACTER_VOICES: Record<string, string[]> = {
+	"en-US": ["A", "B", "C", "D", "E", "F", "G", "H", "I", "J"].map(
+		(letter) => `en-US-Standard-${letter}`
+	),
+	"en-GB": ["A", "B", "C", "D", "F"].map((letter) => `en-GB-Standard-${letter}`),
+};
+
+// Created lazily so the server starts without Google credentials when
+// another provider is in use. Credentials come from the standard
+// GOOGLE_APPLICATION_CREDENTIALS environment variable.
+let client: TextToSpeechClient | null = null;
+const getClient = (): TextToSpeechClient => {
+	if (!client) {
+		client = new TextToSpeechClient();
+	}
+	return client;
+};
+
+// SSML input must be a single <speak> document; scene texts carry only the
+// inline markup
+const toSpeakDocument = (ssml: string): string =>
+	/^\s*<speak[\s>]/.test(ssml) ? ssml : `<speak>${ssml}</speak>`;
+
+// Google Cloud Text-to-Speech. Supports SSML, named voices, speaking rate
+// and pitch. LINEAR16 output already carries a WAV header.
+export const googleTtsProvider: TtsProvider = {
+	name: "google",
+	supportsSsml: true,
+	synthesizeToFile: async (request: TtsRequest, outputPath: string) => {
+		const languageCode = request.languageCode || DEFAULT_LANGUAGE_CODE;
+		let response;
+		try {
+			[response] = await getClient().synthesizeSpeech({
+				input: request.ssml
+					? { ssml: toSpeakDocument(request.text) }
+					: { text: request.text },
+				voice: { languageCode, name: request.voice },
+				audioConfig: {
+					audioEncoding: "LINEAR16",
+					speakingRate: request.speakingRate,
+					pitch: request.pitch,
+				},
+			});
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			console.error("Google TTS Error:", message);
+			throw new TtsError(
+				`Failed to synthesize speech using Google Cloud TTS: ${message}`
+			);
+		}
+
+		if (!response.audioContent) {
+			throw new TtsError("Google Cloud TTS returned no audio content.");
+		}
+		await fs.writeFile(outputPath, response.audioContent as Uint8Array);
+	},
+
+	getCharacterVoices: (languageCode?: string) =>
+		CHARACTER_VOICES[languageCode || DEFAULT_LANGUAGE_CODE] ?? [],
+};
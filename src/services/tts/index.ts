@@ -0,0 +1,66 @@
+import { TtsProvider, TtsProviderName } from "./ttsProvider";
+import { ValidationError } from "../../errors/appErrors";
+import { sayTtsProvider } from "./sayTtsProvider";
+import { googleTtsProvider } from "./googleTtsProvider";
+import { fakeTtsProvider } from "./fakeTtsProvider";
+
+export * from "./ttsProvider";
+
+const providers: Record<TtsProviderName, TtsProvider> = {
+	say: sayTtsProvider,
+	google: googleTtsProvider,
+	fake: fakeTtsProvider,
+};
+
+export const TTS_PROVIDER_NAMES = Object.keys(providers) as TtsProviderName[];
+
+export const isTtsProviderName = (value: unknown): value is TtsProviderName =>
+	typeof value === "string" && value in providers;
+
+// Resolve a provider by name, falling back to TTS_PROVIDER and then "say"
+export const getTtsProvider = (name?: TtsProviderName): TtsProvider => {
+	const configured = process.env.TTS_PROVIDER;
+	const resolvedName =
+		name || (isTtsProviderName(configured) ? configured : "say");
+	return providers[resolvedName];
+};
+
+// Throws when SSML narration is asked of a provider that would read the
+// markup out loud
+export const assertSsmlSupported = (narration?: {
+	provider?: TtsProviderName;
+	ssml?: boolean;
+}): void => {
+	if (!narration?.ssml) return;
+	const provider = getTtsProvider(narration.provider);
+	if (!provider.supportsSsml) {
+		const supported = Object.values(providers)
+			.filter((candidate) => candidate.supportsSsml)
+			.map((candidate) => candidate.name);
+		throw ValidationError.forField(
+			"narration.ssml",
+			`The ${provider.name} TTS provider does not support SSML; use ${supported.join(
+				" or "
+			)}.`
+		);
+	}
+};
+
+// The words of SSML markup, as spoken and shown in captions
+export const stripSsml = (text: string): string =>
+	text
+		.replace(/<[^>]+>/g, " ")
+		.replace(/\s+/g, " ")
+		.trim();
+
+// Typical narration pace at speaking rate 1, about 150 words per minute
+const ESTIMATED_SECONDS_PER_WORD = 0.4;
+
+// Rough length of the narration for `text`, before any TTS call is made
+export const estimateNarrationSeconds = (
+	text: string,
+	speakingRate: number = 1
+): number => {
+	const wordCount = stripSsml(text).split(/\s+/).filter((word) => word.length > 0).length;
+	return (wordCount * ESTIMATED_SECONDS_PER_WORD) / (speakingRate > 0 ? speakingRate : 1);
+};
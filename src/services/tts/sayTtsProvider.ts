@@ -0,0 +1,42 @@
+import say from "say";
+import { TtsProvider, TtsRequest } from "./ttsProvider";
+import { TtsError } from "../../errors/appErrors";
+
+// OS text-to-speech via say.js (SAPI on Windows, `say` on macOS, Festival on Linux).
+// Voice names are platform-dependent; pitch and language are not supported.
+// List the voices to give story characters in SAY_CHARACTER_VOICES
+// (comma-separated), as there is no portable way to discover them.
+export const sayTtsProvider: TtsProvider = {
+	name: "say",
+	supportsSsml: false,
+	synthesizeToFile: (request: TtsRequest, outputPath: string) => {
+		return new Promise((resolve, reject) => {
+			// Use say.export - arguments: text, voice, speed, filename, callback
+			say.export(
+				request.text,
+				request.voice,
+				request.speakingRate ?? 1,
+				outputPath,
+				(err: Error | string | null) => {
+					if (err) {
+						// Handle potential string error or Error object
+						const errMsg = err instanceof Error ? err.message : String(err);
+						console.error("say.export Error:", errMsg);
+						return reject(
+							new TtsError(
+								`Failed to synthesize speech using OS TTS: ${errMsg}`
+							)
+						);
+					}
+					resolve();
+				}
+			);
+		});
+	},
+
+	getCharacterVoices: () =>
+		(process.env.SAY_CHARACTER_VOICES || "")
+			.split(",")
+			.map((voice) => voice.trim())
+			.filter((voice) => voice.length > 0),
+};
@@ -0,0 +1,22 @@
+// Common interface implemented by every text-to-speech engine
+
+export type TtsProviderName = "say" | "google" | "fake";
+
+export interface TtsRequest {
+	text: string; // Plain text, or SSML markup when `ssml` is set
+	ssml?: boolean;
+	voice?: string; // Provider-specific voice name
+	speakingRate?: number; // 1 is normal speed
+	pitch?: number; // Semitones, where the provider supports it
+	languageCode?: string; // BCP-47, e.g. "en-US"
+}
+
+export interface TtsProvider {
+	name: TtsProviderName;
+	supportsSsml: boolean; // Whether requests may set `ssml`
+	// Write the narration as a WAV file to outputPath
+	synthesizeToFile(request: TtsRequest, outputPath: string): Promise<void>;
+	// Voices handed out to story characters that have none configured, in
+	// order. Empty when the provider cannot tell which voices exist.
+	getCharacterVoices(languageCode?: string): string[];
+}
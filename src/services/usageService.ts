@@ -0,0 +1,239 @@
+import path from "path";
+import os from "os";
+import fs from "fs/promises";
+import { QuotaLimits, Tenant } from "./tenantService";
+import { QuotaExceededError } from "../errors/appErrors";
+import { listStoredFiles, readStoredFile, syncFileOut } from "./storage";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+// Daily usage per tenant. Each server keeps the usage it handled in memory
+// and saves it to outputs/usage/<tenantId>/<REPLICA_ID>.json, synced to
+// storage, after every change. Servers never write each other's files, and
+// reads add up every server's file, so replicas sharing a storage backend
+// see one total. REPLICA_ID defaults to the host name. Days are UTC. Usage
+// counts what was produced, including results served from the cache:
+//   images            scene and single images generated
+//   narrationSeconds  length of synthesized narration
+//   renderMinutes     length of rendered videos
+//   uploadMegabytes   size of music and logo uploads
+const USAGE_DIR = path.join(LOCAL_OUTPUT_ROOT, "usage");
+
+const REPLICA_ID = (process.env.REPLICA_ID || os.hostname() || "local").replace(
+	/[^A-Za-z0-9_.-]/g,
+	"_"
+);
+
+// Unit of the uploadMegabytes counter
+export const BYTES_PER_MEGABYTE = 1024 * 1024;
+
+// Days of history kept per tenant
+const USAGE_HISTORY_DAYS = 90;
+
+export type QuotaKind =
+	| "images"
+	| "narrationSeconds"
+	| "renderMinutes"
+	| "uploadMegabytes";
+
+export type UsageCounters = Record<QuotaKind, number>;
+
+interface TenantUsage {
+	tenantId: string;
+	days: Record<string, UsageCounters>; // By UTC date, e.g. "2025-01-31"
+}
+
+// Which limit applies to each counter
+const LIMIT_FIELDS: Record<QuotaKind, keyof QuotaLimits> = {
+	images: "imagesPerDay",
+	narrationSeconds: "narrationSecondsPerDay",
+	renderMinutes: "renderMinutesPerDay",
+	uploadMegabytes: "uploadMegabytesPerDay",
+};
+
+const emptyCounters = (): UsageCounters => ({
+	images: 0,
+	narrationSeconds: 0,
+	renderMinutes: 0,
+	uploadMegabytes: 0,
+});
+
+export const getUsageDay = (date: Date = new Date()): string =>
+	date.toISOString().slice(0, 10);
+
+// Start of the next UTC day, when daily quotas reset
+export const getQuotaResetTime = (now: Date = new Date()): Date =>
+	new Date(
+		Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1)
+	);
+
+const getUsageDir = (tenantId: string): string => path.join(USAGE_DIR, tenantId);
+
+const getUsagePath = (tenantId: string, replicaId: string = REPLICA_ID): string =>
+	path.join(getUsageDir(tenantId), `${replicaId}.json`);
+
+// This server's usage, and pending loads so concurrent first reads share one
+const usageByTenant = new Map<string, Promise<TenantUsage>>();
+// Pending saves per tenant, so writes land in order
+const saveQueues = new Map<string, Promise<void>>();
+
+const loadTenantUsage = (tenantId: string): Promise<TenantUsage> => {
+	let usage = usageByTenant.get(tenantId);
+	if (!usage) {
+		usage = (async (): Promise<TenantUsage> => {
+			const data = await readStoredFile(getUsagePath(tenantId));
+			return data
+				? (JSON.parse(data.toString("utf8")) as TenantUsage)
+				: { tenantId, days: {} };
+		})();
+		usageByTenant.set(tenantId, usage);
+		// Retry a failed load next time rather than start again from zero and
+		// overwrite the saved counts
+		usage.catch((error) => {
+			console.error(`Failed to read usage for tenant ${tenantId}:`, error);
+			usageByTenant.delete(tenantId);
+		});
+	}
+	return usage;
+};
+
+const saveTenantUsage = (usage: TenantUsage): Promise<void> => {
+	const previous = saveQueues.get(usage.tenantId) ?? Promise.resolve();
+	const next = previous.then(async () => {
+		try {
+			const usagePath = getUsagePath(usage.tenantId);
+			await fs.mkdir(getUsageDir(usage.tenantId), { recursive: true });
+			// Write then rename so a crash never leaves a half-written file
+			await fs.writeFile(`${usagePath}.tmp`, JSON.stringify(usage, null, 2));
+			await fs.rename(`${usagePath}.tmp`, usagePath);
+			await syncFileOut(usagePath);
+		} catch (error) {
+			console.error(`Failed to save usage for tenant ${usage.tenantId}:`, error);
+		}
+	});
+	saveQueues.set(usage.tenantId, next);
+	return next.finally(() => {
+		if (saveQueues.get(usage.tenantId) === next) {
+			saveQueues.delete(usage.tenantId);
+		}
+	});
+};
+
+// --- Service Function: Record Usage ---
+// Adds to today's counters. Accounting failures are logged, never thrown,
+// so they cannot fail the work being accounted for.
+export const recordUsage = async (
+	tenantId: string,
+	delta: Partial<UsageCounters>
+): Promise<void> => {
+	let usage: TenantUsage;
+	try {
+		usage = await loadTenantUsage(tenantId);
+	} catch {
+		console.error(`Usage not recorded for tenant ${tenantId}:`, delta);
+		return;
+	}
+	const today = getUsageDay();
+	const counters = (usage.days[today] ??= emptyCounters());
+	for (const kind of Object.keys(LIMIT_FIELDS) as QuotaKind[]) {
+		// Days saved before a counter existed lack it
+		counters[kind] = (counters[kind] ?? 0) + (delta[kind] ?? 0);
+	}
+
+	// Drop days past the history window
+	const cutoff = getUsageDay(
+		new Date(Date.now() - USAGE_HISTORY_DAYS * 24 * 60 * 60 * 1000)
+	);
+	for (const day of Object.keys(usage.days)) {
+		if (day < cutoff) delete usage.days[day];
+	}
+	await saveTenantUsage(usage);
+};
+
+// The usage other servers have saved for a tenant. Unreadable files are
+// logged and left out.
+const loadOtherReplicasUsage = async (
+	tenantId: string
+): Promise<TenantUsage[]> => {
+	const filenames = (await listStoredFiles(getUsageDir(tenantId))).filter(
+		(filename) =>
+			filename.endsWith(".json") && filename !== `${REPLICA_ID}.json`
+	);
+	const usages: TenantUsage[] = [];
+	for (const filename of filenames) {
+		const replicaId = path.basename(filename, ".json");
+		try {
+			const data = await readStoredFile(getUsagePath(tenantId, replicaId));
+			if (data) usages.push(JSON.parse(data.toString("utf8")) as TenantUsage);
+		} catch (error) {
+			console.error(
+				`Failed to read usage for tenant ${tenantId} from ${replicaId}:`,
+				error
+			);
+		}
+	}
+	return usages;
+};
+
+// --- Service Function: Get Usage ---
+// Counters for the most recent `days` days across all servers, newest
+// first, including today
+export const getUsage = async (
+	tenantId: string,
+	days: number = 1
+): Promise<{ date: string; usage: UsageCounters }[]> => {
+	const usages = [
+		await loadTenantUsage(tenantId),
+		...(await loadOtherReplicasUsage(tenantId)),
+	];
+	const history: { date: string; usage: UsageCounters }[] = [];
+	for (let i = 0; i < days; i++) {
+		const date = getUsageDay(new Date(Date.now() - i * 24 * 60 * 60 * 1000));
+		const total = emptyCounters();
+		for (const usage of usages) {
+			for (const kind of Object.keys(LIMIT_FIELDS) as QuotaKind[]) {
+				total[kind] += usage.days[date]?.[kind] ?? 0;
+			}
+		}
+		history.push({ date, usage: total });
+	}
+	return history;
+};
+
+export const getLimit = (tenant: Tenant, kind: QuotaKind): number =>
+	tenant.limits[LIMIT_FIELDS[kind]];
+
+// --- Service Function: Assert Within Quota ---
+// Throws QuotaExceededError when the tenant has reached its daily limit for
+// any kind in `estimate`, or when the estimated usage of the work about to
+// start does not fit in what is left. Estimates are rough, and work already
+// started is allowed to finish, so a tenant can end the day slightly over a
+// limit.
+export const assertWithinQuota = async (
+	tenant: Tenant,
+	estimate: Partial<UsageCounters>
+): Promise<void> => {
+	const [{ usage }] = await getUsage(tenant.id);
+	for (const kind of Object.keys(estimate) as QuotaKind[]) {
+		const limit = getLimit(tenant, kind);
+		const requested = estimate[kind] ?? 0;
+		if (limit > 0 && (usage[kind] >= limit || usage[kind] + requested > limit)) {
+			const resetsAt = getQuotaResetTime();
+			console.warn(
+				`Tenant ${tenant.id} has no room in its ${kind} quota (${usage[kind]} of ${limit} used, about ${requested} requested).`
+			);
+			throw new QuotaExceededError(
+				usage[kind] >= limit
+					? `Daily ${kind} quota exceeded; it resets at ${resetsAt.toISOString()}.`
+					: `Not enough daily ${kind} quota left for this request; it resets at ${resetsAt.toISOString()}.`,
+				{
+					quota: kind,
+					limit,
+					used: usage[kind],
+					requested,
+					resetsAt: resetsAt.toISOString(),
+				},
+				Math.ceil((resetsAt.getTime() - Date.now()) / 1000)
+			);
+		}
+	}
+};
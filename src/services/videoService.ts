@@ -4,11 +4,44 @@ import fs from "fs/promises";
 import { v4 as uuidv4 } from "uuid";
 import ffprobe from "ffprobe";
 import ffprobeStatic from "ffprobe-static";
+import {
+	DEFAULT_RENDER_SETTINGS,
+	RenderSettings,
+	VIDEO_ENCODERS,
+} from "../config/outputFormats";
+import { RenderError, StorageError } from "../errors/appErrors";
+import { getArtifactDir } from "./artifactService";
+import { syncFileIn, syncFileOut } from "./storage";
+import { WatermarkPosition } from "./brandingService";
+import { MotionOption, MotionPreset } from "../config/motionOptions";
 
-const IMAGE_DIR = path.join(__dirname, "../../outputs"); // Base images directory
-const AUDIO_DIR = path.join(__dirname, "../../outputs/audio");
-const VIDEO_DIR = path.join(__dirname, "../../outputs/videos"); // Videos subdirectory
-const TEMP_DIR = path.join(__dirname, "../../outputs/temp"); // Temporary directory for segments
+// Local copies of the inputs and output; synced in and out of storage
+const IMAGE_DIR = getArtifactDir("images");
+const AUDIO_DIR = getArtifactDir("audio");
+const VIDEO_DIR = getArtifactDir("videos");
+
+// Share of overall render progress attributed to segment creation
+const SEGMENT_PROGRESS_SHARE = 40;
+
+// Parse an ffmpeg timemark ("HH:MM:SS.ms") into seconds
+const parseTimemark = (timemark: string | undefined): number => {
+	if (!timemark) return 0;
+	const [hours, minutes, seconds] = timemark.split(":").map(parseFloat);
+	const total = (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+	return isNaN(total) ? 0 : total;
+};
+
+// Escape a file path for use inside a quoted ffmpeg filter argument
+const escapeFilterPath = (filePath: string): string =>
+	filePath.replace(/\\/g, "/").replace(/:/g, "\\:").replace(/'/g, "\\'");
+
+// Same for any other quoted option value, keeping backslashes literal
+const escapeFilterValue = (value: string): string =>
+	value.replace(/\\/g, "\\\\").replace(/:/g, "\\:").replace(/'/g, "\\'");
+
+// ffmpeg colour for a "#RRGGBB" request colour
+const toFfmpegColor = (hexColor: string): string =>
+	`0x${hexColor.replace(/^#/, "")}`;
 
 // Helper to get audio duration
 const getAudioDuration = async (filePath: string): Promise<number> => {
@@ -49,50 +82,478 @@ const getAudioDuration = async (filePath: string): Promise<number> => {
 		console.error(
 			`Error getting audio duration for ${filePath}: ${error.message}`
 		);
-		throw new Error(`Failed to get audio duration for ${filePath}`);
+		throw new RenderError(`Failed to get audio duration for ${filePath}`);
 	}
 };
 
-// Ensure output directories exist (including temp)
+// Ensure the video output directory exists
 const ensureDirs = async (): Promise<void> => {
 	try {
 		await fs.mkdir(VIDEO_DIR, { recursive: true });
-		await fs.mkdir(TEMP_DIR, { recursive: true }); // Ensure TEMP_DIR exists
-		console.log(`Ensured output directories exist: ${VIDEO_DIR}, ${TEMP_DIR}`);
+		console.log(`Ensured output directory exists: ${VIDEO_DIR}`);
 	} catch (error: any) {
 		console.error("Error creating output/temp directories:", error);
-		throw new Error("Failed to create necessary output directories.");
+		throw new StorageError("Failed to create necessary output directories.");
+	}
+};
+
+// Colour shown for scenes whose image could not be generated
+const FALLBACK_FRAME_COLOR = "black";
+
+// --- Motion (Ken Burns) presets ---
+
+// Order used when motion is chosen automatically, so neighbouring scenes differ
+const AUTO_MOTION_CYCLE: MotionPreset[] = [
+	"zoom_in",
+	"pan_right",
+	"zoom_out",
+	"pan_left",
+];
+
+const MOTION_ZOOM = 0.15; // How far zoom/pan presets push in
+
+export const resolveMotion = (
+	motion: MotionOption | undefined,
+	segmentIndex: number
+): MotionPreset => {
+	if (!motion) return "none";
+	if (motion === "auto") {
+		return AUTO_MOTION_CYCLE[segmentIndex % AUTO_MOTION_CYCLE.length];
+	}
+	return motion;
+};
+
+// zoompan filter for a preset. The frame is upscaled first so the slow
+// movement does not jitter between whole pixels.
+const buildMotionFilter = (
+	motion: MotionPreset,
+	segmentDuration: number,
+	render: RenderSettings
+): string | null => {
+	const { width, height, fps } = render;
+	const frames = Math.max(1, Math.ceil(segmentDuration * fps));
+	const progress = `on/${frames}`;
+	const centerX = "iw/2-(iw/zoom/2)";
+	const centerY = "ih/2-(ih/zoom/2)";
+
+	let zoom: string;
+	let x: string;
+	switch (motion) {
+		case "zoom_in":
+			zoom = `1+${MOTION_ZOOM}*${progress}`;
+			x = centerX;
+			break;
+		case "zoom_out":
+			zoom = `${1 + MOTION_ZOOM}-${MOTION_ZOOM}*${progress}`;
+			x = centerX;
+			break;
+		case "pan_left":
+			zoom = `${1 + MOTION_ZOOM}`;
+			x = `(iw-iw/zoom)*(1-${progress})`;
+			break;
+		case "pan_right":
+			zoom = `${1 + MOTION_ZOOM}`;
+			x = `(iw-iw/zoom)*${progress}`;
+			break;
+		default:
+			return null;
+	}
+	return `scale=${width * 2}:${height * 2},zoompan=z='${zoom}':x='${x}':y='${centerY}':d=1:s=${width}x${height}:fps=${fps}`;
+};
+
+// Fit the image into the frame, filling the rest with black bars or with a
+// blurred, enlarged copy of the same image
+const buildFitFilter = (render: RenderSettings): string => {
+	const { width, height, background } = render;
+	if (background === "blur") {
+		return (
+			`split[bgsrc][fgsrc];` +
+			`[bgsrc]scale=${width}:${height}:force_original_aspect_ratio=increase,crop=${width}:${height},boxblur=20:2[bg];` +
+			`[fgsrc]scale=${width}:${height}:force_original_aspect_ratio=decrease[fg];` +
+			`[bg][fg]overlay=(W-w)/2:(H-h)/2`
+		);
+	}
+	return `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=black`;
+};
+
+// Quality options for the final encode: bitrate when given, else CRF
+const buildQualityOptions = (render: RenderSettings): string[] => {
+	if (render.videoBitrate) return ["-b:v", render.videoBitrate];
+	if (render.crf !== undefined) return ["-crf", render.crf.toString()];
+	return [];
+};
+
+// --- Transitions between segments ---
+export type TransitionType = "none" | "crossfade" | "dip_to_black" | "slide";
+
+export interface TransitionOptions {
+	type: TransitionType;
+	duration: number; // Seconds
+}
+
+// ffmpeg xfade names for each transition
+const XFADE_TRANSITIONS: Record<Exclude<TransitionType, "none">, string> = {
+	crossfade: "fade",
+	dip_to_black: "fadeblack",
+	slide: "slideleft",
+};
+
+// --- Background music ---
+export interface BackgroundMusicOptions {
+	trackPath: string; // Absolute path to the music file
+	volume: number; // Music gain, 0-1
+	narrationVolume: number; // Narration gain, 0-2
+	fadeInSeconds: number;
+	fadeOutSeconds: number;
+	duck: boolean; // Lower the music while the narration is speaking
+}
+
+// Mix looped music under the narration: trim it to the video length, fade
+// it in and out, and (optionally) duck it with a sidechain compressor keyed
+// on the narration. Produces the [aout] label.
+const buildMusicMixFilters = (
+	narrationLabel: string, // Input stream or filter label
+	musicInputIndex: number,
+	totalDuration: number,
+	music: BackgroundMusicOptions
+): string[] => {
+	const fadeOutStart = Math.max(0, totalDuration - music.fadeOutSeconds);
+	const musicChain = [
+		`atrim=0:${totalDuration}`,
+		"asetpts=PTS-STARTPTS",
+		`volume=${music.volume}`,
+		...(music.fadeInSeconds > 0
+			? [`afade=t=in:st=0:d=${music.fadeInSeconds}`]
+			: []),
+		...(music.fadeOutSeconds > 0
+			? [`afade=t=out:st=${fadeOutStart}:d=${music.fadeOutSeconds}`]
+			: []),
+	].join(",");
+
+	const filters = [
+		`[${musicInputIndex}:a]${musicChain}[music]`,
+		`[${narrationLabel}]volume=${music.narrationVolume},asplit=2[narr][key]`,
+	];
+	if (music.duck) {
+		filters.push(
+			"[music][key]sidechaincompress=threshold=0.03:ratio=8:attack=20:release=400[bed]"
+		);
+	} else {
+		filters.push("[key]anullsink", "[music]anull[bed]");
+	}
+	// amix halves each input; restore the level afterwards
+	filters.push(
+		"[narr][bed]amix=inputs=2:duration=first:dropout_transition=0,volume=2[aout]"
+	);
+	return filters;
+};
+
+// --- Text overlays, title/end cards and the watermark ---
+export type OverlayPosition = "top" | "middle" | "bottom";
+
+// Text drawn over a scene segment for its whole duration
+export interface TextOverlayOptions {
+	text: string;
+	position: OverlayPosition;
+	fontSize?: number; // Pixels; defaults to a size relative to the frame
+	textColor: string; // #RRGGBB
+	fontName: string;
+}
+
+// A title or end card rendered as its own segment: a plain background with
+// an optional logo above centred text
+export interface CardSegmentOptions {
+	title?: string;
+	subtitle?: string;
+	logoPath?: string; // Absolute path to the logo image
+	duration: number; // Seconds
+	backgroundColor: string; // #RRGGBB
+	textColor: string; // #RRGGBB
+	fontName: string;
+}
+
+// A logo kept on screen for the whole video, applied in the final pass
+export interface WatermarkOptions {
+	logoPath: string; // Absolute path to the logo image
+	position: WatermarkPosition;
+	opacity: number; // 0-1
+	scale: number; // Logo width as a share of the frame width
+}
+
+const LINE_SPACING = 1.25; // Line height as a multiple of the font size
+
+// drawtext has no line wrapping, so break the text into lines that fit the
+// frame, estimating a glyph at a little over half the font size
+const wrapText = (text: string, fontSize: number, maxWidth: number): string[] => {
+	const maxChars = Math.max(8, Math.floor(maxWidth / (fontSize * 0.55)));
+	const lines: string[] = [];
+	let line = "";
+	for (const word of text.replace(/\s+/g, " ").trim().split(" ")) {
+		if (line && line.length + 1 + word.length > maxChars) {
+			lines.push(line);
+			line = word;
+		} else {
+			line = line ? `${line} ${word}` : word;
+		}
 	}
+	if (line) lines.push(line);
+	return lines;
+};
+
+// Write text to a file for drawtext's textfile option, which avoids
+// escaping user text inside the filter graph. Returns the block's height.
+const writeDrawtextFile = async (
+	text: string,
+	fontSize: number,
+	maxWidth: number,
+	filePath: string
+): Promise<number> => {
+	const lines = wrapText(text, fontSize, maxWidth);
+	await fs.writeFile(filePath, lines.join("\n"));
+	return Math.round(lines.length * fontSize * LINE_SPACING);
+};
+
+// drawtext filter centring the text file's lines horizontally at `y`
+const buildDrawtextFilter = (
+	textPath: string,
+	fontName: string,
+	fontSize: number,
+	textColor: string,
+	y: string,
+	boxed: boolean = false
+): string =>
+	[
+		`drawtext=textfile='${escapeFilterPath(textPath)}'`,
+		"expansion=none",
+		`font='${escapeFilterValue(fontName)}'`,
+		`fontsize=${fontSize}`,
+		`fontcolor=${toFfmpegColor(textColor)}`,
+		`line_spacing=${Math.round(fontSize * (LINE_SPACING - 1))}`,
+		"x=(w-text_w)/2",
+		`y=${y}`,
+		// A translucent box keeps scene text readable over busy images
+		...(boxed
+			? ["box=1", "boxcolor=black@0.45", `boxborderw=${Math.round(fontSize / 3)}`]
+			: ["shadowcolor=black@0.5", "shadowx=2", "shadowy=2"]),
+	].join(":");
+
+// drawtext filter for a scene's overlay, writing its text file to `textPath`
+const buildTextOverlayFilter = async (
+	overlay: TextOverlayOptions,
+	render: RenderSettings,
+	textPath: string
+): Promise<string> => {
+	const margin = Math.round(render.height * 0.08);
+	const fontSize = overlay.fontSize ?? Math.round(render.width * 0.05);
+	const blockHeight = await writeDrawtextFile(
+		overlay.text,
+		fontSize,
+		render.width * 0.85,
+		textPath
+	);
+	const y =
+		overlay.position === "top"
+			? `${margin}`
+			: overlay.position === "middle"
+			? `(h-${blockHeight})/2`
+			: `h-${margin}-${blockHeight}`;
+	return buildDrawtextFilter(
+		textPath,
+		overlay.fontName,
+		fontSize,
+		overlay.textColor,
+		y,
+		true
+	);
+};
+
+// Watermark overlay position with a small margin from the frame edges
+const WATERMARK_POSITIONS: Record<WatermarkPosition, string> = {
+	top_left: "x=M:y=M",
+	top_right: "x=W-w-M:y=M",
+	bottom_left: "x=M:y=H-h-M",
+	bottom_right: "x=W-w-M:y=H-h-M",
+};
+
+// Scale and fade the logo, then overlay it on `videoLabel`. The logo is a
+// single frame; overlay repeats it for the rest of the video.
+const buildWatermarkFilters = (
+	videoLabel: string,
+	logoInputIndex: number,
+	watermark: WatermarkOptions,
+	render: RenderSettings,
+	outputLabel: string
+): string[] => {
+	const margin = Math.round(render.width * 0.03);
+	const logoWidth = Math.max(2, Math.round(render.width * watermark.scale));
+	const position = WATERMARK_POSITIONS[watermark.position].replace(
+		/M/g,
+		margin.toString()
+	);
+	return [
+		`[${logoInputIndex}:v]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${watermark.opacity}[wm]`,
+		`[${videoLabel}][wm]overlay=${position}[${outputLabel}]`,
+	];
+};
+
+// Render a title or end card segment, `segmentDuration` long (the card's
+// duration plus any transition overlap). Text files for drawtext are written
+// to `workspaceDir` under `name`.
+const createCardSegment = async (
+	card: CardSegmentOptions,
+	segmentDuration: number,
+	segmentOutputPath: string,
+	render: RenderSettings,
+	workspaceDir: string,
+	name: string
+): Promise<void> => {
+	const { width, height, fps } = render;
+	const titleSize = Math.round(width * 0.075);
+	const subtitleSize = Math.round(width * 0.045);
+	const gap = Math.round(height * 0.025);
+	const maxTextWidth = width * 0.85;
+	const logoMaxWidth = Math.round(width * 0.5);
+	const logoMaxHeight = Math.round(height * 0.25);
+
+	const texts: { path: string; size: number; height: number }[] = [];
+	for (const [suffix, text, size] of [
+		["title", card.title, titleSize],
+		["subtitle", card.subtitle, subtitleSize],
+	] as const) {
+		if (!text) continue;
+		const textPath = path.join(workspaceDir, `${name}_${suffix}.txt`);
+		const blockHeight = await writeDrawtextFile(text, size, maxTextWidth, textPath);
+		texts.push({ path: textPath, size, height: blockHeight });
+	}
+
+	// Stack logo and text blocks, centred vertically as a group. The logo's
+	// real height is unknown until it is scaled, so its full box is reserved.
+	const blockHeights = [
+		...(card.logoPath ? [logoMaxHeight] : []),
+		...texts.map((text) => text.height),
+	];
+	let y = Math.round(
+		(height -
+			blockHeights.reduce((sum, blockHeight) => sum + blockHeight, 0) -
+			gap * (blockHeights.length - 1)) /
+			2
+	);
+
+	const filters: string[] = [];
+	let videoLabel = "0:v";
+	if (card.logoPath) {
+		filters.push(
+			`[1:v]scale=${logoMaxWidth}:${logoMaxHeight}:force_original_aspect_ratio=decrease[logo]`,
+			`[0:v][logo]overlay=(W-w)/2:${y}+(${logoMaxHeight}-h)/2[withlogo]`
+		);
+		videoLabel = "withlogo";
+		y += logoMaxHeight + gap;
+	}
+	const drawtextFilters = texts.map((text) => {
+		const filter = buildDrawtextFilter(
+			text.path,
+			card.fontName,
+			text.size,
+			card.textColor,
+			y.toString()
+		);
+		y += text.height + gap;
+		return filter;
+	});
+	filters.push(
+		`[${videoLabel}]${["null", ...drawtextFilters].join(",")}[card]`
+	);
+
+	return new Promise((resolve, reject) => {
+		const command = ffmpeg()
+			.input(
+				`color=c=${toFfmpegColor(card.backgroundColor)}:s=${width}x${height}:r=${fps}`
+			)
+			.inputOptions(["-f", "lavfi"]);
+		if (card.logoPath) command.input(card.logoPath);
+		command
+			.complexFilter(filters)
+			.outputOptions([
+				"-map",
+				"[card]",
+				"-c:v",
+				"libx264",
+				"-crf",
+				"18",
+				"-t",
+				segmentDuration.toString(),
+				"-pix_fmt",
+				"yuv420p",
+			])
+			.noAudio()
+			.output(segmentOutputPath)
+			.on("end", () => resolve())
+			.on("error", (err) =>
+				reject(
+					new RenderError(
+						`Failed to create card segment ${segmentOutputPath}: ${err.message}`
+					)
+				)
+			)
+			.run();
+	});
 };
 
-// Helper function to create a single video segment from an image
+// Helper function to create a single video segment from an image.
+// A null imagePath renders a plain fallback frame for the same duration.
+// An overlay filter is drawn on top, so scene text stays put under motion.
+// Segments are intermediates, so they are always near-lossless H.264; the
+// requested codec and quality are applied in the final pass.
 const createSegment = (
-	imagePath: string,
+	imagePath: string | null,
 	segmentDuration: number,
 	segmentOutputPath: string,
-	outputFps: number
+	render: RenderSettings,
+	motion: MotionPreset = "none",
+	overlayFilter?: string // drawtext filter applied after fit and motion
 ): Promise<void> => {
+	const outputFps = render.fps;
+	const baseFilter = buildFitFilter(render);
+	const motionFilter = imagePath
+		? buildMotionFilter(motion, segmentDuration, render)
+		: null;
+	const videoFilter = [baseFilter, motionFilter, overlayFilter]
+		.filter(Boolean)
+		.join(",");
+
 	return new Promise((resolve, reject) => {
-		ffmpeg()
-			.input(imagePath)
-			.inputOptions(["-loop", "1"]) // Loop the single image
-			.inputFPS(outputFps) // Interpret the image input at the target FPS
+		const command = ffmpeg();
+		if (imagePath) {
+			command
+				.input(imagePath)
+				.inputOptions(["-loop", "1"]) // Loop the single image
+				.inputFPS(outputFps); // Interpret the image input at the target FPS
+		} else {
+			command
+				.input(
+					`color=c=${FALLBACK_FRAME_COLOR}:s=${render.width}x${render.height}:r=${outputFps}`
+				)
+				.inputOptions(["-f", "lavfi"]);
+		}
+		command
 			.outputOptions([
 				"-c:v",
 				"libx264",
+				"-crf",
+				"18",
 				"-t",
 				segmentDuration.toString(), // Set exact duration
 				"-pix_fmt",
 				"yuv420p",
 				"-vf",
-				"scale=1080:1920:force_original_aspect_ratio=decrease,pad=1080:1920:(ow-iw)/2:(oh-ih)/2:color=black", // Scale/pad filter
+				videoFilter,
 			])
 			.noAudio() // No audio for segments
 			.output(segmentOutputPath)
 			.on("end", () => resolve())
 			.on("error", (err) =>
 				reject(
-					new Error(
+					new RenderError(
 						`Failed to create segment ${segmentOutputPath}: ${err.message}`
 					)
 				)
@@ -101,13 +562,41 @@ const createSegment = (
 	});
 };
 
+// One segment of the final video. The segment lasts as long as its scene's
+// narration; a null imageFilename is rendered as a fallback frame.
+export interface VideoSegmentInput {
+	imageFilename: string | null;
+	duration: number; // Seconds
+	motion?: MotionOption; // Defaults to no motion
+	overlay?: TextOverlayOptions; // Text drawn over the whole segment
+}
+
 // Parameters for the main function
 interface CompileVideoWithFullAudioParams {
-	imageFilenames: string[];
+	segments: VideoSegmentInput[];
 	fullAudioFilename: string;
 	totalAudioDuration: number;
 	outputVideoFilename?: string;
-	outputFps?: number;
+	// The run's own scratch directory (see workspaceService); segments and
+	// the concat list are written there so concurrent renders never collide
+	workspaceDir: string;
+	// Frame size, fps, codec and quality; defaults to 1080x1920 H.264
+	render?: RenderSettings;
+	// Transition between consecutive segments; defaults to a hard cut
+	transition?: TransitionOptions;
+	// Absolute path to an .ass script to burn into the video in the final pass
+	burnInSubtitlesPath?: string;
+	// Background music mixed under the narration
+	music?: BackgroundMusicOptions;
+	// Cards before the first and after the last segment. The narration is
+	// delayed by the title card and the audio padded to cover the end card.
+	titleCard?: CardSegmentOptions;
+	endCard?: CardSegmentOptions;
+	// Logo overlaid on the whole video, cards included
+	watermark?: WatermarkOptions;
+	// Overall render progress, 0-100. Segment creation covers the first
+	// SEGMENT_PROGRESS_SHARE percent, the final concat/encode pass the rest.
+	onProgress?: (percent: number) => void;
 }
 
 interface CompileVideoResult {
@@ -120,22 +609,32 @@ export const compileVideoWithFullAudio = async (
 	params: CompileVideoWithFullAudioParams
 ): Promise<CompileVideoResult> => {
 	const {
-		imageFilenames,
+		segments,
 		fullAudioFilename,
 		totalAudioDuration,
 		outputVideoFilename: customFilename,
-		outputFps = 30,
+		workspaceDir,
+		render = DEFAULT_RENDER_SETTINGS,
+		transition,
+		burnInSubtitlesPath,
+		music,
+		titleCard,
+		endCard,
+		watermark,
+		onProgress,
 	} = params;
 
-	if (
-		!imageFilenames ||
-		imageFilenames.length === 0 ||
-		totalAudioDuration <= 0
-	) {
+	if (!segments || segments.length === 0 || totalAudioDuration <= 0) {
 		throw new Error(
-			"Invalid input: Missing images, audio filename, or valid audio duration."
+			"Invalid input: Missing segments, audio filename, or valid audio duration."
 		);
 	}
+	if (
+		segments.some((segment) => !(segment.duration > 0)) ||
+		[titleCard, endCard].some((card) => card && !(card.duration > 0))
+	) {
+		throw new Error("Invalid input: Every segment needs a positive duration.");
+	}
 
 	await ensureDirs(); // Ensure all needed directories exist
 
@@ -144,86 +643,271 @@ export const compileVideoWithFullAudio = async (
 		: `${uuidv4()}.mp4`;
 	const finalOutputPath = path.join(VIDEO_DIR, outputFilename);
 	const fullAudioPath = path.join(AUDIO_DIR, fullAudioFilename);
-	const concatListPath = path.join(TEMP_DIR, `${uuidv4()}_concat_list.txt`);
+	const concatListPath = path.join(workspaceDir, "concat_list.txt");
 	const tempSegmentPaths: string[] = [];
 
 	try {
-		// --- 1. Prepare valid images and calculate segment duration ---
-		const validImagePaths: string[] = [];
-		for (const filename of imageFilenames) {
-			const imagePath = path.join(IMAGE_DIR, filename);
+		// --- 1. Resolve image paths (missing images fall back to a plain frame) ---
+		const segmentImagePaths: (string | null)[] = [];
+		for (const segment of segments) {
+			if (!segment.imageFilename) {
+				segmentImagePaths.push(null);
+				continue;
+			}
+			const imagePath = path.join(IMAGE_DIR, segment.imageFilename);
 			try {
-				await fs.access(imagePath);
-				validImagePaths.push(imagePath);
+				await syncFileIn(imagePath);
+				segmentImagePaths.push(imagePath);
 			} catch (err: any) {
-				console.warn(`Skipping image due to missing file: ${filename}`);
+				console.warn(
+					`Using fallback frame due to missing file: ${segment.imageFilename}`
+				);
+				segmentImagePaths.push(null);
 			}
 		}
-		if (validImagePaths.length === 0) {
-			throw new Error("No valid image files were found.");
+		if (segmentImagePaths.every((imagePath) => imagePath === null)) {
+			throw new RenderError("No valid image files were found.");
 		}
-		const actualDurationPerSegment =
-			totalAudioDuration / validImagePaths.length;
+		await syncFileIn(fullAudioPath);
+		// Every part of the video in order: title card, scenes, end card
+		const partDurations = [
+			...(titleCard ? [titleCard.duration] : []),
+			...segments.map((segment) => segment.duration),
+			...(endCard ? [endCard.duration] : []),
+		];
+		const totalVideoDuration = partDurations.reduce(
+			(sum, duration) => sum + duration,
+			0
+		);
+		const narrationDelay = titleCard?.duration ?? 0;
 		console.log(
-			`Total Audio: ${totalAudioDuration}s, Segments: ${validImagePaths.length}, Duration/Segment: ${actualDurationPerSegment}s`
+			`Total Audio: ${totalAudioDuration}s, Segments: ${segments.length}, Total Video Duration: ${totalVideoDuration}s`
+		);
+
+		// Transitions overlap neighbouring segments. Every segment except the
+		// last is extended by the transition length and each transition starts
+		// exactly where the next scene's narration begins, so scene timing and
+		// total length still match the audio. The length is capped at half the
+		// shortest segment so a transition never swallows a whole scene.
+		const transitionDuration =
+			transition && transition.type !== "none" && partDurations.length > 1
+				? Math.min(transition.duration, Math.min(...partDurations) / 2)
+				: 0;
+		const renderedDurations = partDurations.map((duration, i) =>
+			i < partDurations.length - 1 ? duration + transitionDuration : duration
 		);
 
 		// --- 2. Create individual video segments ---
 		console.log("Creating temporary video segments...");
 		const segmentCreationPromises: Promise<void>[] = [];
-		for (let i = 0; i < validImagePaths.length; i++) {
-			const imgPath = validImagePaths[i];
-			const segmentPath = path.join(TEMP_DIR, `temp_segment_${i}.mp4`);
-			tempSegmentPaths.push(segmentPath);
+		let segmentsDone = 0;
+		const trackSegment = (creation: Promise<void>): void => {
 			segmentCreationPromises.push(
-				createSegment(imgPath, actualDurationPerSegment, segmentPath, outputFps)
+				creation.then(() => {
+					segmentsDone++;
+					onProgress?.(
+						(segmentsDone / partDurations.length) * SEGMENT_PROGRESS_SHARE
+					);
+				})
+			);
+		};
+		const addCardSegment = (card: CardSegmentOptions, name: string): void => {
+			const segmentPath = path.join(workspaceDir, `${name}.mp4`);
+			tempSegmentPaths.push(segmentPath);
+			trackSegment(
+				createCardSegment(
+					card,
+					renderedDurations[tempSegmentPaths.length - 1],
+					segmentPath,
+					render,
+					workspaceDir,
+					name
+				)
+			);
+		};
+
+		if (titleCard) addCardSegment(titleCard, "title_card");
+		for (let i = 0; i < segments.length; i++) {
+			const segmentPath = path.join(workspaceDir, `segment_${i}.mp4`);
+			tempSegmentPaths.push(segmentPath);
+			const renderedDuration = renderedDurations[tempSegmentPaths.length - 1];
+			const overlay = segments[i].overlay;
+			trackSegment(
+				(overlay
+					? buildTextOverlayFilter(
+							overlay,
+							render,
+							path.join(workspaceDir, `overlay_${i}.txt`)
+					  )
+					: Promise.resolve(undefined)
+				).then((overlayFilter) =>
+					createSegment(
+						segmentImagePaths[i],
+						renderedDuration,
+						segmentPath,
+						render,
+						resolveMotion(segments[i].motion, i),
+						overlayFilter
+					)
+				)
 			);
 		}
+		if (endCard) addCardSegment(endCard, "end_card");
 		await Promise.all(segmentCreationPromises);
 		console.log("Temporary video segments created successfully.");
 
-		// --- 3. Create concat list file ---
-		const concatFileContent = tempSegmentPaths
-			.map((p) => `file '${p.replace(/\\/g, "/")}'`)
-			.join("\n"); // Correct path separator replacement
-		await fs.writeFile(concatListPath, concatFileContent);
-		console.log("Concat list file created.");
+		// --- 3. Join segments: concat demuxer for hard cuts, xfade chain otherwise ---
+		const finalCommand = ffmpeg();
+		const filters: string[] = [];
+		let inputCount = 0;
+		// Current video stream: a filter label, or the plain input stream
+		let videoLabel: string | null = null;
 
-		// --- 4. Concatenate segments and add audio ---
-		console.log("Concatenating segments and adding audio...");
-		await new Promise<void>((resolve, reject) => {
-			ffmpeg()
+		if (transitionDuration > 0 && transition && transition.type !== "none") {
+			for (const segmentPath of tempSegmentPaths) {
+				finalCommand.input(segmentPath);
+			}
+			inputCount = tempSegmentPaths.length;
+			const xfadeName = XFADE_TRANSITIONS[transition.type];
+			// xfade needs matching timebases and frame rates on both inputs
+			filters.push(
+				...tempSegmentPaths.map(
+					(_, i) => `[${i}:v]settb=AVTB,fps=${render.fps}[s${i}]`
+				)
+			);
+			videoLabel = "s0";
+			let offset = 0;
+			for (let i = 1; i < tempSegmentPaths.length; i++) {
+				offset += partDurations[i - 1];
+				const label = `x${i}`;
+				filters.push(
+					`[${videoLabel}][s${i}]xfade=transition=${xfadeName}:duration=${transitionDuration}:offset=${offset}[${label}]`
+				);
+				videoLabel = label;
+			}
+		} else {
+			const concatFileContent = tempSegmentPaths
+				.map((p) => `file '${p.replace(/\\/g, "/")}'`)
+				.join("\n"); // Correct path separator replacement
+			await fs.writeFile(concatListPath, concatFileContent);
+			console.log("Concat list file created.");
+			finalCommand
 				.input(concatListPath)
-				.inputOptions(["-f", "concat", "-safe", "0"])
-				.input(fullAudioPath)
+				.inputOptions(["-f", "concat", "-safe", "0"]);
+			inputCount = 1;
+		}
+
+		if (watermark) {
+			finalCommand.input(watermark.logoPath);
+			filters.push(
+				...buildWatermarkFilters(
+					videoLabel ?? "0:v",
+					inputCount++,
+					watermark,
+					render,
+					"vwm"
+				)
+			);
+			videoLabel = "vwm";
+		}
+
+		if (burnInSubtitlesPath) {
+			filters.push(
+				`[${videoLabel ?? "0:v"}]ass='${escapeFilterPath(
+					burnInSubtitlesPath
+				)}'[vcap]`
+			);
+			videoLabel = "vcap";
+		}
+
+		// --- 4. Add narration (and music, if requested) and encode ---
+		finalCommand.input(fullAudioPath);
+		const narrationInputIndex = inputCount++;
+		let audioLabel: string | null = null;
+		let narrationLabel = `${narrationInputIndex}:a`;
+
+		// Start the narration after the title card and pad it with silence
+		// through the end card
+		if (titleCard || endCard) {
+			const delayMs = Math.round(narrationDelay * 1000);
+			filters.push(
+				`[${narrationLabel}]adelay=${delayMs}|${delayMs},apad,atrim=0:${totalVideoDuration}[narration]`
+			);
+			narrationLabel = "narration";
+			audioLabel = "narration";
+		}
+
+		if (music) {
+			finalCommand
+				.input(music.trackPath)
+				.inputOptions(["-stream_loop", "-1"]); // Loop short tracks
+			const musicInputIndex = inputCount++;
+			filters.push(
+				...buildMusicMixFilters(
+					narrationLabel,
+					musicInputIndex,
+					totalVideoDuration,
+					music
+				)
+			);
+			audioLabel = "aout";
+		}
+
+		if (filters.length > 0) {
+			finalCommand.complexFilter(filters);
+		}
+
+		console.log("Joining segments and adding audio...");
+		await new Promise<void>((resolve, reject) => {
+			finalCommand
 				.outputOptions([
 					"-map",
-					"0:v", // Map video from concat input
+					videoLabel ? `[${videoLabel}]` : "0:v", // Joined video
 					"-map",
-					"1:a", // Map audio from audio input
+					audioLabel ? `[${audioLabel}]` : `${narrationInputIndex}:a`, // Narration/mix
 					"-c:v",
-					"libx264",
+					VIDEO_ENCODERS[render.videoCodec],
+					...buildQualityOptions(render),
+					"-r",
+					render.fps.toString(),
 					"-c:a",
 					"aac",
+					"-b:a",
+					render.audioBitrate,
 					"-pix_fmt",
 					"yuv420p",
+					// Lets the MP4 start playing before it has fully downloaded
+					"-movflags",
+					"+faststart",
 					"-shortest", // Use shortest to ensure alignment with concat video length
 				])
 				.output(finalOutputPath)
 				.on("start", (cmd) =>
 					console.log("Spawned Ffmpeg concat command: " + cmd)
 				)
+				.on("progress", (progress) => {
+					// percent is unreliable with concat inputs, so derive it from the timemark
+					const encodedSeconds = parseTimemark(progress.timemark);
+					const fraction = Math.min(encodedSeconds / totalVideoDuration, 1);
+					onProgress?.(
+						SEGMENT_PROGRESS_SHARE + fraction * (100 - SEGMENT_PROGRESS_SHARE)
+					);
+				})
 				.on("end", () => {
 					console.log(`Final video created: ${finalOutputPath}`);
+					onProgress?.(100);
 					resolve();
 				})
 				.on("error", (err) => {
 					console.error("Error during final concatenation:", err);
-					reject(new Error("ffmpeg concatenation failed: " + err.message));
+					reject(
+						new RenderError("ffmpeg concatenation failed: " + err.message)
+					);
 				})
 				.run();
 		});
 
+		await syncFileOut(finalOutputPath);
 		return { videoPath: finalOutputPath, videoFilename: outputFilename };
 	} catch (error) {
 		console.error("Error during video compilation process:", error);
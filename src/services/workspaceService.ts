@@ -0,0 +1,119 @@
+import path from "path";
+import fs from "fs/promises";
+import { StorageError } from "../errors/appErrors";
+import { LOCAL_OUTPUT_ROOT } from "./storage/storageBackend";
+
+// Every run (story job, re-render, scene regeneration) gets its own scratch
+// directory for intermediate files such as video segments and caption
+// scripts, and names its artifacts with its run ID, so concurrent runs never
+// write to the same path.
+const WORKSPACE_ROOT = path.join(LOCAL_OUTPUT_ROOT, "temp");
+
+const RUN_ID_PATTERN = /^[0-9a-zA-Z-]{1,64}$/;
+
+// Runs whose workspace exists right now; the retention sweeper leaves their
+// workspaces and artifacts alone
+const activeRunIds = new Set<string>();
+
+export const isRunActive = (runId: string): boolean => activeRunIds.has(runId);
+
+export const getActiveRunIds = (): string[] => [...activeRunIds];
+
+export interface RunWorkspace {
+	runId: string; // The job ID of the run
+	dir: string; // Absolute path of the run's scratch directory
+}
+
+// --- Service Function: Create Run Workspace ---
+export const createRunWorkspace = async (
+	runId: string
+): Promise<RunWorkspace> => {
+	// The ID becomes a directory and part of filenames, so keep it plain
+	if (!RUN_ID_PATTERN.test(runId)) {
+		throw new Error(`Invalid run ID: ${runId}`);
+	}
+	const dir = path.join(WORKSPACE_ROOT, runId);
+	try {
+		await fs.mkdir(dir, { recursive: true });
+	} catch (error) {
+		console.error(`Failed to create workspace for run ${runId}:`, error);
+		throw new StorageError("Failed to create run workspace.");
+	}
+	activeRunIds.add(runId);
+	console.log(`Created workspace for run ${runId}: ${dir}`);
+	return { runId, dir };
+};
+
+// Artifact name (without extension) unique to this run, e.g.
+// "scene_3" -> "scene_3_<runId>"
+export const getRunArtifactName = (
+	workspace: RunWorkspace,
+	baseName: string
+): string => `${baseName}_${workspace.runId}`;
+
+// Path of a scratch file inside the workspace
+export const getWorkspacePath = (
+	workspace: RunWorkspace,
+	filename: string
+): string => path.join(workspace.dir, filename);
+
+// --- Service Function: Remove Run Workspace ---
+// Deletes the run's scratch directory and nothing else. Failures are logged,
+// never thrown, so cleanup cannot mask the run's own result.
+export const removeRunWorkspace = async (
+	workspace: RunWorkspace
+): Promise<void> => {
+	activeRunIds.delete(workspace.runId);
+	try {
+		await fs.rm(workspace.dir, { recursive: true, force: true });
+		console.log(`Removed workspace for run ${workspace.runId}.`);
+	} catch (error) {
+		console.warn(
+			`Failed to remove workspace for run ${workspace.runId}:`,
+			error
+		);
+	}
+};
+
+const getDirectorySize = async (dir: string): Promise<number> => {
+	let total = 0;
+	for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+		const entryPath = path.join(dir, entry.name);
+		total += entry.isDirectory()
+			? await getDirectorySize(entryPath)
+			: (await fs.stat(entryPath)).size;
+	}
+	return total;
+};
+
+// --- Service Function: Sweep Stale Workspaces ---
+// Deletes workspaces left behind by runs that are no longer active (e.g.
+// after a crash) once they are older than `maxAgeMs`. Returns the number of
+// bytes freed.
+export const sweepStaleWorkspaces = async (maxAgeMs: number): Promise<number> => {
+	let entries: string[];
+	try {
+		entries = await fs.readdir(WORKSPACE_ROOT);
+	} catch (error: any) {
+		if (error.code === "ENOENT") return 0;
+		throw error;
+	}
+	let freedBytes = 0;
+	for (const entry of entries) {
+		if (isRunActive(entry)) continue;
+		const entryPath = path.join(WORKSPACE_ROOT, entry);
+		try {
+			const stats = await fs.stat(entryPath);
+			if (Date.now() - stats.mtimeMs < maxAgeMs) continue;
+			const size = stats.isDirectory()
+				? await getDirectorySize(entryPath)
+				: stats.size;
+			await fs.rm(entryPath, { recursive: true, force: true });
+			freedBytes += size;
+			console.log(`Removed stale workspace: ${entry}`);
+		} catch (error) {
+			console.warn(`Failed to remove stale workspace ${entry}:`, error);
+		}
+	}
+	return freedBytes;
+};
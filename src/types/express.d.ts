@@ -1,11 +1,139 @@
 import { Request } from "express";
+import { CacheScope } from "../services/cacheService";
+import { CaptionPosition, CaptionHighlightStyle } from "../services/subtitleService";
+import { OverlayPosition, TransitionType } from "../services/videoService";
+import { TtsProviderName } from "../services/tts";
+import { GenerationOptions } from "../services/generationService";
+import { StoryBible } from "./story";
+import { OutputFormatRequestOptions } from "../config/outputFormats";
+import { MotionOption } from "../config/motionOptions";
+import { Tenant } from "../services/tenantService";
+import { CharacterVoice } from "../services/dialogueService";
+import { WatermarkPosition } from "../services/brandingService";
+
+// Request whose API key has been resolved to a tenant (see requireApiKey)
+export interface RequestWithTenant extends Request {
+	tenant?: Tenant;
+}
 
 // Interface extending Express Request to include our custom property
-export interface RequestWithImageData extends Request {
+export interface RequestWithImageData extends RequestWithTenant {
 	generatedImageBase64?: string;
+	cacheScope?: CacheScope; // Cache bypass and hit/miss counts for the request
+}
+
+// Options that only affect how the video is rendered. Stored with each
+// project and accepted on their own by POST /projects/:id/render.
+export interface RenderRequestBody {
+	captions?: CaptionRequestOptions;
+	motion?: MotionOption; // Default motion for every scene ("auto" varies it per scene)
+	sceneMotions?: (MotionOption | null)[]; // Per-scene overrides, in scene order
+	transition?: TransitionRequestOptions;
+	output?: OutputFormatRequestOptions; // Aspect preset, resolution, fps, codec
+	music?: MusicRequestOptions; // Background music bed
+	titleCard?: CardRequestOptions; // Opening card before the first scene
+	endCard?: CardRequestOptions; // Closing card after the last scene
+	sceneOverlays?: (SceneOverlayRequestOptions | null)[]; // In scene order
+	watermark?: WatermarkRequestOptions; // Logo shown over the whole video
 }
 
 // Interface for the story request body
-export interface StoryRequestBody {
-	story?: string;
+export interface StoryRequestBody extends RenderRequestBody {
+	story: string; // Required by storyRequestSchema
+	// At most one of these; without either the model picks the scene breaks
+	sceneCount?: number; // Exact number of scenes (and images)
+	targetDurationSeconds?: number; // Reel length to fit, e.g. 30 or 60
+	narration?: NarrationRequestOptions;
+	models?: GenerationOptions; // Model provider and model IDs
+	style?: StyleRequestOptions; // Art-style preset and/or custom template
+	storyBible?: StoryBible; // Edited bible from a previous response
+	cache?: CacheRequestOptions;
+}
+
+// Art style accepted by /generate and /story-to-images: a preset from
+// GET /styles, "anime" for its latest version or "anime@1" for a fixed one,
+// and/or a custom refinement template (see prompts/stylePresets)
+export interface StyleRequestOptions {
+	preset?: string;
+	template?: string;
+}
+
+// Cache options accepted by the generation endpoints
+export interface CacheRequestOptions {
+	bypass?: boolean; // Ignore cached model/TTS output for this request
+}
+
+// Background music options accepted in the story request body.
+// Exactly one of libraryTrack (see GET /music) or uploadId (from POST /music).
+export interface MusicRequestOptions {
+	libraryTrack?: string;
+	uploadId?: string;
+	volume?: number; // Music gain, 0-1
+	narrationVolume?: number; // Narration gain, 0-2
+	fadeInSeconds?: number;
+	fadeOutSeconds?: number;
+	duck?: boolean; // Lower the music under the narration (default true)
+}
+
+// A title or end card: text and/or a logo from POST /logos on a plain
+// background. Needs at least one of title, subtitle or logoUploadId.
+export interface CardRequestOptions {
+	title?: string;
+	subtitle?: string; // Smaller line below the title, e.g. a call to action
+	logoUploadId?: string;
+	duration?: number; // Seconds
+	backgroundColor?: string; // "#RRGGBB"
+	textColor?: string; // "#RRGGBB"
+	fontName?: string;
+}
+
+// Text drawn over one scene for its whole duration
+export interface SceneOverlayRequestOptions {
+	text: string;
+	position?: OverlayPosition;
+	fontSize?: number; // Pixels
+	textColor?: string; // "#RRGGBB"
+	fontName?: string;
+}
+
+export interface WatermarkRequestOptions {
+	logoUploadId: string; // From POST /logos
+	position?: WatermarkPosition;
+	opacity?: number; // 0-1
+	scale?: number; // Logo width as a share of the frame width
+}
+
+// Text-to-speech options accepted in the story request body
+export interface NarrationRequestOptions {
+	provider?: TtsProviderName;
+	voice?: string;
+	speakingRate?: number; // 1 is normal speed
+	pitch?: number; // Semitones (Google only)
+	languageCode?: string; // e.g. "en-US" (Google only)
+	// The story carries inline SSML markup, e.g. <break time="500ms"/>
+	// (Google only). Captions show the text without it.
+	ssml?: boolean;
+	// Read quoted dialogue in a voice per character (see dialogueService)
+	multiVoice?: boolean;
+	// Voices for named characters; the rest get one from the provider's
+	// character voices. Filled in for every speaker once a story is narrated.
+	characterVoices?: CharacterVoice[];
+	linePauseSeconds?: number; // Silence between dialogue lines
+}
+
+// Transition options accepted in the story request body
+export interface TransitionRequestOptions {
+	type?: TransitionType;
+	duration?: number; // Seconds
+}
+
+// Caption options accepted in the story request body
+export interface CaptionRequestOptions {
+	burnIn?: boolean; // Burn styled captions into the video
+	fontName?: string;
+	fontSize?: number;
+	position?: CaptionPosition;
+	textColor?: string; // "#RRGGBB"
+	highlightColor?: string; // "#RRGGBB"
+	highlightStyle?: CaptionHighlightStyle;
 }
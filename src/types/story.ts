@@ -0,0 +1,42 @@
+// Shared result structures for the story-to-reel pipeline
+
+// Result structure for each scene
+export interface SceneProcessingResult {
+	sceneIndex: number;
+	sceneText: string;
+	refinedPrompt: string | null; // Prompt the image was generated from
+	imageFilename: string | null;
+	audioFilename: string | null; // Narration for this scene only
+	audioDuration: number; // Seconds; the scene's image stays on screen this long
+	pinnedDuration?: number; // Seconds; set in the storyboard, overrides audioDuration
+	error?: string; // Error during image generation for this scene
+}
+
+// Result structure for the video compilation
+export interface VideoCompilationResult {
+	videoFilename: string;
+}
+
+// A named character or location and how it should look in every image
+export interface StoryBibleEntry {
+	name: string;
+	visualDescription: string;
+}
+
+// Visual reference extracted from the story before scene generation and fed
+// into every scene's prompts, so characters and style stay consistent
+export interface StoryBible {
+	characters: StoryBibleEntry[];
+	locations: StoryBibleEntry[];
+	era: string;
+	artStyle: string;
+}
+
+// Art style resolved from a request's `style` option against the preset
+// library. Saved with projects as is, so regenerated scenes match.
+export interface ImageStyle {
+	preset: string | null; // Pinned, e.g. "anime@1"
+	template: string; // Refinement template with {{placeholders}}
+	style: string | null; // Style wording added to every image prompt
+	avoid: string[]; // Elements to keep out of the image
+}
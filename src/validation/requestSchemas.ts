@@ -0,0 +1,252 @@
+// Request body schemas for each route. They check shapes, types, enums and
+// length limits up front; checks that need more context (a music track
+// existing, a scene index being in range) stay in the services.
+import {
+	array,
+	boolean,
+	nullable,
+	number,
+	object,
+	oneOf,
+	required,
+	string,
+	tagged,
+	Validator,
+} from "./schema";
+import {
+	ASPECT_PRESETS,
+	BACKGROUND_FILLS,
+	VIDEO_CODECS,
+} from "../config/outputFormats";
+import { MOTION_OPTIONS } from "../config/motionOptions";
+import { MODEL_PROVIDER_NAMES } from "../services/models";
+import { TTS_PROVIDER_NAMES } from "../services/tts";
+
+const MAX_PROMPT_LENGTH = 2000;
+const MAX_STORY_LENGTH = 20000;
+const MAX_SCENE_TEXT_LENGTH = 5000;
+const MAX_MODEL_ID_LENGTH = 200;
+const MAX_STORYBOARD_OPERATIONS = 100;
+const MIN_PINNED_DURATION = 0.5; // Seconds
+const MAX_PINNED_DURATION = 120;
+const MAX_SCENE_COUNT = 50;
+const MAX_TEMPLATE_LENGTH = 4000;
+const MIN_TARGET_DURATION = 5; // Seconds
+const MAX_TARGET_DURATION = 600;
+
+const modelsSchema = object({
+	provider: oneOf(MODEL_PROVIDER_NAMES),
+	textModel: string({ minLength: 1, maxLength: MAX_MODEL_ID_LENGTH }),
+	imageModel: string({ minLength: 1, maxLength: MAX_MODEL_ID_LENGTH }),
+});
+
+const cacheSchema = object({ bypass: boolean() });
+
+// Presets and placeholders are checked by parseImageStyle
+const styleSchema = object({
+	preset: string({ minLength: 1, maxLength: 100 }),
+	template: string({ minLength: 1, maxLength: MAX_TEMPLATE_LENGTH }),
+});
+
+const narrationSchema = object({
+	provider: oneOf(TTS_PROVIDER_NAMES),
+	voice: string({ maxLength: 200 }),
+	speakingRate: number({ min: 0.25, max: 4 }),
+	pitch: number({ min: -20, max: 20 }),
+	languageCode: string({ pattern: /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/ }),
+	ssml: boolean(),
+	multiVoice: boolean(),
+	characterVoices: array(
+		object({
+			name: required(string({ minLength: 1, maxLength: 100 })),
+			voice: required(string({ minLength: 1, maxLength: 200 })),
+		}),
+		{ maxItems: 50 }
+	),
+	linePauseSeconds: number({ min: 0, max: 2 }),
+});
+
+// Entries are checked in full by parseStoryBible
+const storyBibleSchema = object({
+	characters: array(object({}), { maxItems: 20 }),
+	locations: array(object({}), { maxItems: 20 }),
+	era: string({ maxLength: 1000 }),
+	artStyle: string({ maxLength: 1000 }),
+});
+
+const motionSchema = oneOf(MOTION_OPTIONS);
+
+// Explicit width and height override the format preset, so both are needed.
+// yuv420p needs even dimensions.
+const outputSchema = object(
+	{
+		format: oneOf(Object.keys(ASPECT_PRESETS)),
+		width: number({ min: 240, max: 3840, integer: true, even: true }),
+		height: number({ min: 240, max: 3840, integer: true, even: true }),
+		fps: number({ min: 1, max: 60 }),
+		codec: oneOf(VIDEO_CODECS),
+		crf: number({ min: 0, max: 51, integer: true }),
+		videoBitrate: string({ pattern: /^\d+(\.\d+)?[kKmM]$/ }),
+		audioBitrate: string({ pattern: /^\d+(\.\d+)?[kKmM]$/ }),
+		background: oneOf(BACKGROUND_FILLS),
+	},
+	{ together: ["width", "height"] }
+);
+
+const captionsSchema = object({
+	burnIn: boolean(),
+	// Commas would split the ASS Style line
+	fontName: string({ minLength: 1, maxLength: 100, pattern: /^[^,]+$/ }),
+	fontSize: number({ min: 1, max: 400 }),
+	position: oneOf(["top", "middle", "bottom"]),
+	textColor: string({ pattern: /^#[0-9a-f]{6}$/i }),
+	highlightColor: string({ pattern: /^#[0-9a-f]{6}$/i }),
+	highlightStyle: oneOf(["none", "word"]),
+});
+
+const transitionSchema = object({
+	type: oneOf(["none", "crossfade", "dip_to_black", "slide"]),
+	duration: number({ min: 0.05, max: 5 }),
+});
+
+const musicSchema = object({
+	libraryTrack: string({ minLength: 1, maxLength: 255 }),
+	uploadId: string({ minLength: 1, maxLength: 255 }),
+	volume: number({ min: 0, max: 1 }),
+	narrationVolume: number({ min: 0, max: 2 }),
+	fadeInSeconds: number({ min: 0, max: 30 }),
+	fadeOutSeconds: number({ min: 0, max: 30 }),
+	duck: boolean(),
+});
+
+// drawtext font names: letters, digits, spaces, dots, dashes and underscores
+const FONT_NAME_PATTERN = /^[\w .-]+$/;
+
+const cardSchema = object({
+	title: string({ minLength: 1, maxLength: 120 }),
+	subtitle: string({ minLength: 1, maxLength: 200 }),
+	logoUploadId: string({ minLength: 1, maxLength: 255 }),
+	duration: number({ min: 0.5, max: 10 }),
+	backgroundColor: string({ pattern: /^#[0-9a-f]{6}$/i }),
+	textColor: string({ pattern: /^#[0-9a-f]{6}$/i }),
+	fontName: string({
+		minLength: 1,
+		maxLength: 100,
+		pattern: FONT_NAME_PATTERN,
+	}),
+});
+
+const sceneOverlaySchema = object({
+	text: required(string({ minLength: 1, maxLength: 200 })),
+	position: oneOf(["top", "middle", "bottom"]),
+	fontSize: number({ min: 8, max: 400 }),
+	textColor: string({ pattern: /^#[0-9a-f]{6}$/i }),
+	fontName: string({
+		minLength: 1,
+		maxLength: 100,
+		pattern: FONT_NAME_PATTERN,
+	}),
+});
+
+const watermarkSchema = object({
+	logoUploadId: required(string({ minLength: 1, maxLength: 255 })),
+	position: oneOf(["top_left", "top_right", "bottom_left", "bottom_right"]),
+	opacity: number({ min: 0, max: 1 }),
+	scale: number({ min: 0.05, max: 0.5 }),
+});
+
+const renderFields: Record<string, Validator> = {
+	captions: captionsSchema,
+	motion: motionSchema,
+	sceneMotions: array(nullable(motionSchema), { maxItems: 100 }),
+	transition: transitionSchema,
+	output: outputSchema,
+	music: musicSchema,
+	titleCard: cardSchema,
+	endCard: cardSchema,
+	sceneOverlays: array(nullable(sceneOverlaySchema), { maxItems: 100 }),
+	watermark: watermarkSchema,
+};
+
+// --- POST /generate ---
+export const generateImageSchema = object({
+	prompt: required(string({ minLength: 1, maxLength: MAX_PROMPT_LENGTH })),
+	models: modelsSchema,
+	style: styleSchema,
+	cache: cacheSchema,
+});
+
+// --- POST /story-to-images ---
+export const storyRequestSchema = object({
+	story: required(string({ minLength: 1, maxLength: MAX_STORY_LENGTH })),
+	sceneCount: number({ min: 1, max: MAX_SCENE_COUNT, integer: true }),
+	targetDurationSeconds: number({
+		min: MIN_TARGET_DURATION,
+		max: MAX_TARGET_DURATION,
+	}),
+	narration: narrationSchema,
+	models: modelsSchema,
+	style: styleSchema,
+	storyBible: storyBibleSchema,
+	cache: cacheSchema,
+	...renderFields,
+});
+
+// --- POST /projects/:id/render ---
+// null clears an option stored with the project
+export const projectRenderSchema = object(
+	Object.fromEntries(
+		Object.entries(renderFields).map(([key, validator]) => [
+			key,
+			nullable(validator),
+		])
+	)
+);
+
+// --- POST /projects/:id/scenes/:index/regenerate ---
+export const regenerateSceneSchema = object({
+	sceneText: string({ minLength: 1, maxLength: MAX_SCENE_TEXT_LENGTH }),
+	prompt: string({ minLength: 1, maxLength: MAX_PROMPT_LENGTH }),
+});
+
+// --- PATCH /projects/:id/storyboard ---
+const sceneIndexSchema = required(number({ min: 1, integer: true }));
+
+export const editStoryboardSchema = object({
+	version: required(number({ min: 1, integer: true })),
+	operations: required(
+		array(
+			tagged({
+				reorder: object({
+					order: required(array(number({ min: 1, integer: true }))),
+				}),
+				merge: object({ sceneIndex: sceneIndexSchema }),
+				split: object({
+					sceneIndex: sceneIndexSchema,
+					texts: required(
+						array(
+							required(
+								string({ minLength: 1, maxLength: MAX_SCENE_TEXT_LENGTH })
+							),
+							{ minItems: 2, maxItems: 2 }
+						)
+					),
+				}),
+				update: object(
+					{
+						sceneIndex: sceneIndexSchema,
+						sceneText: string({
+							minLength: 1,
+							maxLength: MAX_SCENE_TEXT_LENGTH,
+						}),
+						pinnedDuration: nullable(
+							number({ min: MIN_PINNED_DURATION, max: MAX_PINNED_DURATION })
+						),
+					},
+					{ anyOf: ["sceneText", "pinnedDuration"] }
+				),
+			}),
+			{ minItems: 1, maxItems: MAX_STORYBOARD_OPERATIONS }
+		)
+	),
+});
@@ -0,0 +1,227 @@
+import { Request, Response, NextFunction } from "express";
+import { FieldIssue, ValidationError } from "../errors/appErrors";
+
+// Minimal declarative request validation. A validator checks one value and
+// records any problems against its field path; undefined is accepted unless
+// wrapped in `required`, so every field is optional by default.
+export type Validator = (
+	value: unknown,
+	field: string,
+	issues: FieldIssue[]
+) => void;
+
+const describe = (field: string): string => field || "Request body";
+
+export const required =
+	(validator: Validator): Validator =>
+	(value, field, issues) => {
+		if (value === undefined || value === null) {
+			issues.push({ field, message: `${describe(field)} is required.` });
+			return;
+		}
+		validator(value, field, issues);
+	};
+
+// Also accepts null, used where null clears a stored option
+export const nullable =
+	(validator: Validator): Validator =>
+	(value, field, issues) => {
+		if (value !== null) validator(value, field, issues);
+	};
+
+export const string =
+	(
+		options: { minLength?: number; maxLength?: number; pattern?: RegExp } = {}
+	): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		if (typeof value !== "string") {
+			issues.push({ field, message: `${describe(field)} must be a string.` });
+			return;
+		}
+		const { minLength = 0, maxLength, pattern } = options;
+		if (value.trim().length < minLength) {
+			issues.push({
+				field,
+				message:
+					minLength === 1
+						? `${describe(field)} must not be empty.`
+						: `${describe(field)} must be at least ${minLength} characters.`,
+			});
+		} else if (maxLength !== undefined && value.length > maxLength) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be at most ${maxLength} characters.`,
+			});
+		} else if (pattern && !pattern.test(value)) {
+			issues.push({
+				field,
+				message: `${describe(field)} has an invalid format.`,
+			});
+		}
+	};
+
+export const number =
+	(
+		options: { min?: number; max?: number; integer?: boolean; even?: boolean } = {}
+	): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		if (typeof value !== "number" || !Number.isFinite(value)) {
+			issues.push({ field, message: `${describe(field)} must be a number.` });
+			return;
+		}
+		const { min, max, integer, even } = options;
+		if (integer && !Number.isInteger(value)) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be an integer.`,
+			});
+		} else if (even && value % 2 !== 0) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be an even number.`,
+			});
+		} else if (min !== undefined && max !== undefined) {
+			if (value < min || value > max) {
+				issues.push({
+					field,
+					message: `${describe(field)} must be between ${min} and ${max}.`,
+				});
+			}
+		} else if (min !== undefined && value < min) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be at least ${min}.`,
+			});
+		} else if (max !== undefined && value > max) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be at most ${max}.`,
+			});
+		}
+	};
+
+export const boolean =
+	(): Validator =>
+	(value, field, issues) => {
+		if (value !== undefined && typeof value !== "boolean") {
+			issues.push({ field, message: `${describe(field)} must be a boolean.` });
+		}
+	};
+
+export const oneOf =
+	(values: readonly string[]): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		if (typeof value !== "string" || !values.includes(value)) {
+			issues.push({
+				field,
+				message: `${describe(field)} must be one of ${values.join(", ")}.`,
+			});
+		}
+	};
+
+export const array =
+	(
+		item: Validator,
+		options: { minItems?: number; maxItems?: number } = {}
+	): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		if (!Array.isArray(value)) {
+			issues.push({ field, message: `${describe(field)} must be an array.` });
+			return;
+		}
+		if (options.minItems !== undefined && value.length < options.minItems) {
+			issues.push({
+				field,
+				message:
+					options.minItems === 1
+						? `${describe(field)} must not be empty.`
+						: `${describe(field)} must have at least ${options.minItems} items.`,
+			});
+			return;
+		}
+		if (options.maxItems !== undefined && value.length > options.maxItems) {
+			issues.push({
+				field,
+				message: `${describe(field)} must have at most ${options.maxItems} items.`,
+			});
+			return;
+		}
+		value.forEach((entry, i) => item(entry, `${field}[${i}]`, issues));
+	};
+
+// Unknown properties are ignored. `anyOf` names keys of which at least one
+// must be set; `together` names keys that must be set together or not at all.
+export const object =
+	(
+		shape: Record<string, Validator>,
+		options: { anyOf?: string[]; together?: string[] } = {}
+	): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		if (!value || typeof value !== "object" || Array.isArray(value)) {
+			issues.push({ field, message: `${describe(field)} must be an object.` });
+			return;
+		}
+		const isSet = (key: string) =>
+			(value as Record<string, unknown>)[key] !== undefined;
+		const { anyOf, together } = options;
+		if (anyOf && !anyOf.some(isSet)) {
+			issues.push({
+				field,
+				message: `${describe(field)} must set ${anyOf.join(" and/or ")}.`,
+			});
+		}
+		if (together && together.some(isSet) && !together.every(isSet)) {
+			issues.push({
+				field,
+				message: `${describe(field)} must set ${together.join(" and ")} together.`,
+			});
+		}
+		for (const [key, validator] of Object.entries(shape)) {
+			validator(
+				(value as Record<string, unknown>)[key],
+				field ? `${field}.${key}` : key,
+				issues
+			);
+		}
+	};
+
+// Validates with the first validator whose discriminator matches `value.type`
+export const tagged =
+	(variants: Record<string, Validator>): Validator =>
+	(value, field, issues) => {
+		if (value === undefined) return;
+		const type = (value as { type?: unknown } | null)?.type;
+		const variant =
+			typeof type === "string" &&
+			Object.prototype.hasOwnProperty.call(variants, type)
+				? variants[type]
+				: undefined;
+		if (!variant) {
+			const typeField = field ? `${field}.type` : "type";
+			issues.push({
+				field: typeField,
+				message: `${typeField} must be one of ${Object.keys(variants).join(
+					", "
+				)}.`,
+			});
+			return;
+		}
+		variant(value, field, issues);
+	};
+
+// Route middleware that rejects the request with every problem found in
+// the body at once
+export const validateBody =
+	(schema: Validator) => (req: Request, res: Response, next: NextFunction) => {
+		const issues: FieldIssue[] = [];
+		schema(req.body ?? {}, "", issues);
+		if (issues.length > 0) {
+			return next(new ValidationError("Invalid request body.", issues));
+		}
+		next();
+	};